@@ -1,68 +1,229 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Upload, Download, Settings, RefreshCw, Printer, AlertCircle, PenTool, Move3d, Box } from 'lucide-react';
-import { PrinterSettings, ModelSettings, FileType, HatchStyle } from './types';
-import { generateGCode } from './services/gcodeService';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { Upload, Download, Settings, RefreshCw, Printer, AlertCircle, PenTool, Move3d, Box, Zap, ChevronUp, ChevronDown, Palette, Columns, X, LayoutGrid, Plus, Maximize } from 'lucide-react';
+import { PrinterSettings, ModelSettings, FileType, HatchStyle, InfillPattern, GCodeFlavorId, PenLiftMode, PenChangeCommand, SVGPlotMode, PlacementAnchor, PlateObject, ArrangeMode } from './types';
+import { generatePlateGCode } from './services/gcodeService';
 import { generateSTL } from './services/stlService';
+import { GCODE_FLAVORS } from './services/gcodeFlavors';
+import { estimateGCode, formatDuration } from './services/gcodeEstimator';
+import { checkBedBounds, fitPlateToBed } from './services/bedBounds';
+import { arrangePlate, createObjectId, placeCopies, plateFootprints } from './services/plateService';
+import { SourceBounds } from './utils/placement';
+import { listSVGColors, sortByPenOrder } from './utils/svgHelper';
 import GCodeViewer from './components/GCodeViewer';
 
+// Existing programs (from this app or other slicers / CAM tools) open straight in the viewer
+const GCODE_EXTENSIONS = ['.gcode', '.gco', '.nc', '.g'];
+const isGCodeFile = (file: File) => GCODE_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext));
+
 const DEFAULT_PRINTER_SETTINGS: PrinterSettings = {
+  gcodeFlavor: 'marlin',
   nozzleDiameter: 0.4,
   filamentDiameter: 1.75,
+  filamentDensity: 1.24, // PLA
   layerHeight: 0.2,
   initialLayerHeight: 0.24,
   printSpeed: 50 * 60, // mm/min
   travelSpeed: 120 * 60, // mm/min
+  acceleration: 1000, // mm/s²
+  junctionDeviation: 0.05,
   temperature: 200,
   bedTemperature: 60,
   retractionDistance: 5,
   retractionSpeed: 40 * 60,
+  retractionMinTravel: 1.5,
+  retractionExtraRestart: 0,
+  wipeDistance: 0,
   extrusionMultiplier: 1.0,
+  relativeExtrusion: false,
+  arcFitting: false,
+  arcTolerance: 0.02,
   zOffset: 0,
   bedWidth: 220,
   bedDepth: 220,
+  maxHeight: 250,
+  bedMargin: 5,
   zHop: 2.0, // Default Z-Hop for plotter
+  penLift: 'zhop',
+  penUpAngle: 90,
+  penDownAngle: 30,
+  penUpGCode: 'M107',
+  penDownGCode: 'M106 S255',
+  penDownDwell: 0, // ms
+  penChangeCommand: 'M0',
+  laserMaxS: 1000, // GRBL default $30
+  laserDynamicPower: true,
 };
 
 const DEFAULT_MODEL_SETTINGS: ModelSettings = {
   targetHeight: 1.0,
   scale: 1.0,
+  anchor: 'center',
+  offsetX: 0,
+  offsetY: 0,
+  rotation: 0,
+  mirrorX: false,
+  mirrorY: false,
+  curveTolerance: 0.05,
   fillDensity: 100,
   generateInfill: true,
+  infillPattern: 'rectilinear',
+  wallCount: 2,
+  infillOverlap: 15,
+  topLayers: 3,
+  bottomLayers: 3,
   isPlotterMode: true, // Default to Plotter per request
   hatchStyle: 'cross',
+  svgPlotMode: 'both',
+  hatchFills: false,
+  hatchByLightness: false,
+  penOrder: [],
+  skippedPens: [],
+  traceThreshold: 128,
+  isLaserMode: false,
+  laserMinPower: 5,
+  laserMaxPower: 80,
+  laserRasterSpeed: 50 * 60, // mm/min
+  laserOverscan: 3,
+  laserBidirectional: true,
+  laserCutPower: 100,
+  laserCutSpeed: 5 * 60, // mm/min
+  laserPasses: 1,
+};
+
+// A file added to the plate takes the current settings but starts at the default placement,
+// and its own pens
+const NEW_OBJECT_SETTINGS: Partial<ModelSettings> = {
+  anchor: 'center',
+  offsetX: 0,
+  offsetY: 0,
+  rotation: 0,
+  mirrorX: false,
+  mirrorY: false,
+  penOrder: [],
+  skippedPens: [],
 };
 
 export default function App() {
-  const [content, setContent] = useState<string | null>(null);
-  const [fileName, setFileName] = useState<string>('');
-  const [fileType, setFileType] = useState<FileType>('svg');
-  
+  // Build plate: the placed designs, each with its own settings; the panel edits the selected one
+  const [plate, setPlate] = useState<PlateObject[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Settings used while the plate is empty, and as the start for the next file
+  const [draftSettings, setDraftSettings] = useState<ModelSettings>(DEFAULT_MODEL_SETTINGS);
+  // A G-code file opened for viewing, shown instead of the plate
+  const [preview, setPreview] = useState<{ name: string; gcode: string } | null>(null);
+  const [copyCount, setCopyCount] = useState(1);
+  const [arrangeMode, setArrangeMode] = useState<ArrangeMode>('grid');
+  const [arrangeSpacing, setArrangeSpacing] = useState(5);
+  const [footprints, setFootprints] = useState<Map<string, SourceBounds>>(new Map());
+
+  const selected = plate.find(o => o.id === selectedId) || plate[0] || null;
+  const fileType: FileType = preview ? 'gcode' : selected ? selected.fileType : 'svg';
+  const content = preview ? preview.gcode : selected ? selected.content : null;
+  const fileName = preview ? preview.name : selected ? selected.name : '';
+  const modelSettings = selected ? selected.settings : draftSettings;
+
+  // Edits go to the selected object. The machine mode is one per job, so it's kept in step
+  // on every object.
+  const setModelSettings = (next: ModelSettings) => {
+    setDraftSettings(next);
+    if (!selected) return;
+    setPlate(objects => objects.map(o => o.id === selected.id
+      ? { ...o, settings: next }
+      : { ...o, settings: { ...o.settings, isPlotterMode: next.isPlotterMode, isLaserMode: next.isLaserMode } }));
+  };
+
   const [printerSettings, setPrinterSettings] = useState<PrinterSettings>(DEFAULT_PRINTER_SETTINGS);
-  const [modelSettings, setModelSettings] = useState<ModelSettings>(DEFAULT_MODEL_SETTINGS);
   const [prefixGCode, setPrefixGCode] = useState<string>('; Auto-Bed Leveling\nG29');
   const [gcode, setGcode] = useState<string>('');
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  // Second G-code program to compare against, overlaid or side by side
+  const [compare, setCompare] = useState<{ name: string; gcode: string } | null>(null);
+  const [compareLayout, setCompareLayout] = useState<'overlay' | 'side'>('overlay');
+
+  // Pen colors of the loaded SVG, in the order they will be plotted
+  const penColors = useMemo(() => {
+    if (!content || fileType !== 'svg') return [];
+    try {
+      return sortByPenOrder(listSVGColors(content, modelSettings.svgPlotMode, modelSettings.hatchFills), c => c, modelSettings.penOrder);
+    } catch {
+      return [];
+    }
+  }, [content, fileType, modelSettings.svgPlotMode, modelSettings.hatchFills, modelSettings.penOrder]);
+
+  // Job statistics for the status bar
+  const estimate = useMemo(
+    () => gcode ? estimateGCode(gcode, printerSettings) : null,
+    [gcode, printerSettings]
+  );
+  const bedCheck = useMemo(
+    () => gcode ? checkBedBounds(gcode, printerSettings) : null,
+    [gcode, printerSettings]
+  );
+  const outOfBounds = !!bedCheck && bedCheck.problems.length > 0;
+  const compareEstimate = useMemo(
+    () => compare ? estimateGCode(compare.gcode, printerSettings) : null,
+    [compare, printerSettings]
+  );
+
+  // Placement handles for the viewer, once each object's footprint is known
+  const plateHandles = useMemo(
+    () => plate.filter(o => footprints.has(o.id)).map(o => ({ id: o.id, label: o.name, footprint: footprints.get(o.id)! })),
+    [plate, footprints]
+  );
 
-  const processFile = (file: File) => {
-    setFileName(file.name);
-    const type = file.type.includes('svg') ? 'svg' : 'image';
-    setFileType(type);
+  const movePen = (index: number, delta: number) => {
+    const order = [...penColors];
+    const target = index + delta;
+    if (target < 0 || target >= order.length) return;
+    [order[index], order[target]] = [order[target], order[index]];
+    setModelSettings({...modelSettings, penOrder: order});
+  };
+
+  // Pens left to plot; the last one can't be skipped, or there'd be nothing to draw
+  const enabledPens = penColors.filter(c => !modelSettings.skippedPens.includes(c));
+
+  const togglePen = (color: string) => {
+    const skipping = !modelSettings.skippedPens.includes(color);
+    if (skipping && enabledPens.length <= 1) return;
+    const skipped = skipping
+      ? [...modelSettings.skippedPens, color]
+      : modelSettings.skippedPens.filter(c => c !== color);
+    setModelSettings({...modelSettings, skippedPens: skipped});
+  };
+
+  // Opening a file replaces the plate (or, for G-code, shows it instead); adding puts the
+  // design on the plate next to the others, at the default placement
+  const processFile = (file: File, mode: 'open' | 'add' = 'open') => {
+    const type: FileType = isGCodeFile(file) ? 'gcode' : file.type.includes('svg') ? 'svg' : 'image';
     
     const reader = new FileReader();
     reader.onload = (event) => {
       if (event.target?.result) {
-        setContent(event.target.result as string);
+        const result = event.target.result as string;
         setError(null);
+        if (type === 'gcode') {
+          // G-code files are shown as they are
+          setPreview({ name: file.name, gcode: result });
+          setGcode(result);
+          return;
+        }
+        const settings = mode === 'add' && plate.length > 0
+          ? { ...modelSettings, ...NEW_OBJECT_SETTINGS }
+          : modelSettings;
+        const object: PlateObject = { id: createObjectId(), name: file.name, fileType: type, content: result, settings };
+        setPlate(objects => mode === 'add' ? [...objects, object] : [object]);
+        setSelectedId(object.id);
+        setPreview(null);
         // Reset GCode to trigger regeneration effect
         setGcode(''); 
       }
     };
     
-    // SVGs must be read as text for the loader to parse the XML string.
+    // SVGs and G-code must be read as text for the parsers.
     // Images must be read as DataURL for the Image object to load src.
-    if (type === 'svg') {
+    if (type === 'svg' || type === 'gcode') {
         reader.readAsText(file);
     } else {
         reader.readAsDataURL(file);
@@ -74,6 +235,54 @@ export default function App() {
     if (file) processFile(file);
   };
 
+  const handleAddToPlate = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) processFile(file, 'add');
+    e.target.value = '';
+  };
+
+  const removeObject = (id: string) => {
+    setPlate(objects => objects.filter(o => o.id !== id));
+    if (selectedId === id) setSelectedId(null);
+    setGcode('');
+  };
+
+  // Lay the plate out again, then regenerate
+  const arrange = async (objects: PlateObject[]) => {
+    try {
+      setPlate(await arrangePlate(objects, printerSettings, arrangeMode, arrangeSpacing));
+      setGcode('');
+    } catch (err: any) {
+      setError(err.message || 'Failed to arrange the plate');
+    }
+  };
+
+  // Copies go into free space; objects already on the plate stay where they are
+  const handleAddCopies = async () => {
+    if (!selected || copyCount < 1) return;
+    try {
+      const copies = await placeCopies(plate, selected, copyCount, printerSettings, arrangeSpacing);
+      if (copies.length < copyCount) {
+        setError(`Only ${copies.length} more ${copies.length === 1 ? 'copy fits' : 'copies fit'} in the free space on the bed. Lower the count or use "Arrange plate".`);
+        return;
+      }
+      const index = plate.findIndex(o => o.id === selected.id);
+      setPlate([...plate.slice(0, index + 1), ...copies, ...plate.slice(index + 1)]);
+      setGcode('');
+    } catch (err: any) {
+      setError(err.message || 'Failed to add copies');
+    }
+  };
+
+  // Footprints of the placed objects, for the placement handles in the viewer
+  useEffect(() => {
+    let cancelled = false;
+    plateFootprints(plate, printerSettings)
+      .then(result => { if (!cancelled) setFootprints(result); })
+      .catch(() => { if (!cancelled) setFootprints(new Map()); });
+    return () => { cancelled = true; };
+  }, [plate, printerSettings]);
+
   const handleDragOver = (e: React.DragEvent) => {
       e.preventDefault();
       setIsDragging(true);
@@ -88,19 +297,35 @@ export default function App() {
       e.preventDefault();
       setIsDragging(false);
       const file = e.dataTransfer.files?.[0];
-      if (file && (file.type.includes('svg') || file.type.includes('image'))) {
+      if (file && (file.type.includes('svg') || file.type.includes('image') || isGCodeFile(file))) {
           processFile(file);
       } else {
-          setError('Please drop an SVG, PNG, or JPG file.');
+          setError('Please drop an SVG, PNG, JPG or G-code file.');
       }
   };
 
+  const handleCompareUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      if (typeof event.target?.result === 'string') setCompare({ name: file.name, gcode: event.target.result });
+    };
+    reader.readAsText(file);
+    // Allow picking the same file again after clearing
+    e.target.value = '';
+  };
+
   const handleGenerate = useCallback(async () => {
-    if (!content) return;
+    if (preview) {
+      setGcode(preview.gcode);
+      return;
+    }
+    if (plate.length === 0) return;
     setIsGenerating(true);
     setError(null);
     try {
-      const result = await generateGCode(content, fileType, printerSettings, modelSettings, prefixGCode);
+      const result = await generatePlateGCode(plate, printerSettings, prefixGCode);
       setGcode(result);
     } catch (err: any) {
       setError(err.message || 'Failed to generate G-Code');
@@ -108,15 +333,41 @@ export default function App() {
     } finally {
       setIsGenerating(false);
     }
-  }, [content, fileType, printerSettings, modelSettings, prefixGCode]);
+  }, [preview, plate, printerSettings, prefixGCode]);
 
-  // Auto-generate when Content loads for the first time
+  // Auto-generate when Content loads for the first time. Each set of inputs (a new
+  // handleGenerate) is tried once, so a job that fails isn't regenerated over and over.
+  const autoGenerated = useRef<typeof handleGenerate | null>(null);
   useEffect(() => {
-    if (content && !gcode && !isGenerating) {
+    if (content && !gcode && !isGenerating && autoGenerated.current !== handleGenerate) {
+      autoGenerated.current = handleGenerate;
       handleGenerate();
     }
   }, [content, handleGenerate, gcode, isGenerating]);
 
+  // Scale the job to the largest size that fits, up or down, then regenerate through the
+  // auto-generate effect
+  const handleFitToBed = () => {
+    if (!bedCheck) return;
+    const fitted = fitPlateToBed(bedCheck, printerSettings, plate);
+    if (!fitted) {
+      setError('No scale fits the job inside the bed margin at its current anchor and offset.');
+      return;
+    }
+    setPlate(fitted);
+    setGcode('');
+  };
+
+  // Dragged in the viewer: shift the object's placement offset and regenerate
+  const handleMoveObject = (id: string, dx: number, dy: number) => {
+    const round = (v: number) => Math.round(v * 10) / 10;
+    setPlate(objects => objects.map(o => o.id === id
+      ? { ...o, settings: { ...o.settings, offsetX: round(o.settings.offsetX + dx), offsetY: round(o.settings.offsetY + dy) } }
+      : o));
+    setSelectedId(id);
+    setGcode('');
+  };
+
   const downloadGCode = () => {
     const blob = new Blob([gcode], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
@@ -130,9 +381,9 @@ export default function App() {
   };
 
   const downloadSTL = async () => {
-    if (!content || fileType !== 'svg') return;
+    if (plate.length === 0) return;
     try {
-      const blob = generateSTL(content, modelSettings);
+      const blob = await generateSTL(plate, printerSettings);
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
@@ -163,6 +414,43 @@ export default function App() {
     </div>
   );
 
+  // Hatch pattern for images, and for filled SVG regions in plotter mode
+  const hatchStyleSelect = (
+    <div className="flex flex-col gap-1 mb-3">
+        <label className="text-xs text-slate-400 font-medium uppercase tracking-wider">Hatch Pattern</label>
+        <div className="flex items-center bg-slate-800 rounded px-3 py-2 border border-slate-700 focus-within:border-blue-500 transition-colors">
+            <select 
+                value={modelSettings.hatchStyle} 
+                onChange={(e) => setModelSettings({...modelSettings, hatchStyle: e.target.value as HatchStyle})}
+                className="bg-transparent text-sm text-white w-full focus:outline-none cursor-pointer"
+            >
+                <option value="cross">Cross Hatch</option>
+                <option value="diagonal">Diagonal</option>
+                <option value="horizontal">Horizontal</option>
+                <option value="vertical">Vertical</option>
+            </select>
+        </div>
+    </div>
+  );
+
+  // What to draw from an SVG in plotter and laser mode
+  const svgPlotModeSelect = (
+    <div className="flex flex-col gap-1 mb-3">
+        <label className="text-xs text-slate-400 font-medium uppercase tracking-wider">Draw</label>
+        <div className="flex items-center bg-slate-800 rounded px-3 py-2 border border-slate-700 focus-within:border-blue-500 transition-colors">
+            <select 
+                value={modelSettings.svgPlotMode} 
+                onChange={(e) => setModelSettings({...modelSettings, svgPlotMode: e.target.value as SVGPlotMode})}
+                className="bg-transparent text-sm text-white w-full focus:outline-none cursor-pointer"
+            >
+                <option value="both">Strokes + Fill Outlines</option>
+                <option value="strokes">Strokes Only</option>
+                <option value="fills">Fill Outlines Only</option>
+            </select>
+        </div>
+    </div>
+  );
+
   return (
     <div className="flex flex-col h-screen bg-slate-950 text-slate-200 font-sans">
       {/* Header */}
@@ -177,36 +465,44 @@ export default function App() {
         <div className="flex items-center gap-4">
           <div className="flex items-center bg-slate-800 rounded-lg p-1 border border-slate-700 mr-2">
              <button 
-                onClick={() => setModelSettings({...modelSettings, isPlotterMode: false})}
-                className={`px-3 py-1.5 rounded flex items-center gap-2 text-xs font-medium transition-all ${!modelSettings.isPlotterMode ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                onClick={() => setModelSettings({...modelSettings, isPlotterMode: false, isLaserMode: false})}
+                disabled={!GCODE_FLAVORS[printerSettings.gcodeFlavor].supportsExtrusion}
+                title={!GCODE_FLAVORS[printerSettings.gcodeFlavor].supportsExtrusion ? `${GCODE_FLAVORS[printerSettings.gcodeFlavor].label} has no extruder axis` : undefined}
+                className={`px-3 py-1.5 rounded flex items-center gap-2 text-xs font-medium transition-all disabled:opacity-40 disabled:cursor-not-allowed ${!modelSettings.isPlotterMode ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
              >
                  <Move3d className="w-3 h-3" /> 3D Print
              </button>
              <button 
-                onClick={() => setModelSettings({...modelSettings, isPlotterMode: true})}
-                className={`px-3 py-1.5 rounded flex items-center gap-2 text-xs font-medium transition-all ${modelSettings.isPlotterMode ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                onClick={() => setModelSettings({...modelSettings, isPlotterMode: true, isLaserMode: false})}
+                className={`px-3 py-1.5 rounded flex items-center gap-2 text-xs font-medium transition-all ${modelSettings.isPlotterMode && !modelSettings.isLaserMode ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
              >
                  <PenTool className="w-3 h-3" /> 2D Plotter
              </button>
+             <button 
+                onClick={() => setModelSettings({...modelSettings, isPlotterMode: true, isLaserMode: true})}
+                className={`px-3 py-1.5 rounded flex items-center gap-2 text-xs font-medium transition-all ${modelSettings.isLaserMode ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+             >
+                 <Zap className="w-3 h-3" /> Laser
+             </button>
           </div>
 
           <label className="cursor-pointer bg-slate-800 hover:bg-slate-700 text-sm font-medium px-4 py-2 rounded-lg transition-colors border border-slate-700 flex items-center gap-2">
             <Upload className="w-4 h-4" />
             <span>{fileName ? (fileName.length > 15 ? fileName.substring(0,12) + '...' : fileName) : "Upload File"}</span>
-            <input type="file" accept=".svg,.jpg,.jpeg,.png" className="hidden" onChange={handleFileUpload} />
+            <input type="file" accept={['.svg', '.jpg', '.jpeg', '.png', ...GCODE_EXTENSIONS].join(',')} className="hidden" onChange={handleFileUpload} />
           </label>
           
           <button 
             onClick={handleGenerate}
-            disabled={!content || isGenerating}
-            className={`px-4 py-2 rounded-lg font-medium text-sm flex items-center gap-2 transition-all ${!content ? 'bg-slate-800 text-slate-500 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-500 text-white shadow-lg shadow-blue-500/20'}`}
+            disabled={!content || isGenerating || fileType === 'gcode'}
+            className={`px-4 py-2 rounded-lg font-medium text-sm flex items-center gap-2 transition-all ${!content || fileType === 'gcode' ? 'bg-slate-800 text-slate-500 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-500 text-white shadow-lg shadow-blue-500/20'}`}
           >
             <RefreshCw className={`w-4 h-4 ${isGenerating ? 'animate-spin' : ''}`} />
             Regenerate
           </button>
           
           <div className="flex gap-2">
-            {fileType === 'svg' && (
+            {fileType !== 'gcode' && (fileType === 'svg' || !modelSettings.isPlotterMode) && (
               <button 
                 onClick={downloadSTL}
                 disabled={!content}
@@ -220,8 +516,9 @@ export default function App() {
 
             <button 
               onClick={downloadGCode}
-              disabled={!gcode}
-              className={`px-4 py-2 rounded-lg font-medium text-sm flex items-center gap-2 transition-all ${!gcode ? 'bg-slate-800 text-slate-500 cursor-not-allowed' : 'bg-emerald-600 hover:bg-emerald-500 text-white shadow-lg shadow-emerald-500/20'}`}
+              disabled={!gcode || outOfBounds}
+              title={outOfBounds ? 'The toolpath leaves the bed' : undefined}
+              className={`px-4 py-2 rounded-lg font-medium text-sm flex items-center gap-2 transition-all ${!gcode || outOfBounds ? 'bg-slate-800 text-slate-500 cursor-not-allowed' : 'bg-emerald-600 hover:bg-emerald-500 text-white shadow-lg shadow-emerald-500/20'}`}
             >
               <Download className="w-4 h-4" />
               GCode
@@ -243,12 +540,31 @@ export default function App() {
               Printer Settings
             </h2>
             <div className="space-y-1">
+              <div className="flex flex-col gap-1 mb-3">
+                  <label className="text-xs text-slate-400 font-medium uppercase tracking-wider">G-code Flavor</label>
+                  <div className="flex items-center bg-slate-800 rounded px-3 py-2 border border-slate-700 focus-within:border-blue-500 transition-colors">
+                      <select 
+                          value={printerSettings.gcodeFlavor} 
+                          onChange={(e) => setPrinterSettings({...printerSettings, gcodeFlavor: e.target.value as GCodeFlavorId})}
+                          className="bg-transparent text-sm text-white w-full focus:outline-none cursor-pointer"
+                      >
+                          {/* 3D prints need an extruder axis */}
+                          {(Object.keys(GCODE_FLAVORS) as GCodeFlavorId[]).map(id => (
+                              <option key={id} value={id} disabled={!modelSettings.isPlotterMode && !GCODE_FLAVORS[id].supportsExtrusion}>{GCODE_FLAVORS[id].label}</option>
+                          ))}
+                      </select>
+                  </div>
+              </div>
               <div className="grid grid-cols-2 gap-2">
                 <InputGroup label="Bed Width" value={printerSettings.bedWidth} onChange={(v: number) => setPrinterSettings({...printerSettings, bedWidth: v})} suffix="mm" step={10} />
                 <InputGroup label="Bed Depth" value={printerSettings.bedDepth} onChange={(v: number) => setPrinterSettings({...printerSettings, bedDepth: v})} suffix="mm" step={10} />
               </div>
+              <div className="grid grid-cols-2 gap-2">
+                <InputGroup label="Max Height" value={printerSettings.maxHeight} onChange={(v: number) => setPrinterSettings({...printerSettings, maxHeight: v})} suffix="mm" step={10} />
+                <InputGroup label="Bed Margin" value={printerSettings.bedMargin} onChange={(v: number) => setPrinterSettings({...printerSettings, bedMargin: v})} suffix="mm" step={1} />
+              </div>
               <InputGroup 
-                  label={modelSettings.isPlotterMode ? "Pen Diameter" : "Nozzle Diameter"} 
+                  label={modelSettings.isLaserMode ? "Laser Spot Size" : modelSettings.isPlotterMode ? "Pen Diameter" : "Nozzle Diameter"} 
                   value={printerSettings.nozzleDiameter} 
                   onChange={(v: number) => setPrinterSettings({...printerSettings, nozzleDiameter: v})} 
                   suffix="mm" 
@@ -256,18 +572,115 @@ export default function App() {
               
               {!modelSettings.isPlotterMode && (
                 <>
-                  <InputGroup label="Filament" value={printerSettings.filamentDiameter} onChange={(v: number) => setPrinterSettings({...printerSettings, filamentDiameter: v})} suffix="mm" />
+                  <div className="grid grid-cols-2 gap-2">
+                    <InputGroup label="Filament" value={printerSettings.filamentDiameter} onChange={(v: number) => setPrinterSettings({...printerSettings, filamentDiameter: v})} suffix="mm" />
+                    <InputGroup label="Density" value={printerSettings.filamentDensity} onChange={(v: number) => setPrinterSettings({...printerSettings, filamentDensity: v})} suffix="g/cm³" step={0.01} />
+                  </div>
                   <InputGroup label="Layer Height" value={printerSettings.layerHeight} onChange={(v: number) => setPrinterSettings({...printerSettings, layerHeight: v})} suffix="mm" />
                   <InputGroup label="Temp (Nozzle)" value={printerSettings.temperature} onChange={(v: number) => setPrinterSettings({...printerSettings, temperature: v})} suffix="°C" step={1} />
                   <InputGroup label="Temp (Bed)" value={printerSettings.bedTemperature} onChange={(v: number) => setPrinterSettings({...printerSettings, bedTemperature: v})} suffix="°C" step={1} />
+                  <div className="grid grid-cols-2 gap-2">
+                    <InputGroup label="Retraction" value={printerSettings.retractionDistance} onChange={(v: number) => setPrinterSettings({...printerSettings, retractionDistance: v})} suffix="mm" />
+                    <InputGroup label="Retract Speed" value={printerSettings.retractionSpeed / 60} onChange={(v: number) => setPrinterSettings({...printerSettings, retractionSpeed: v * 60})} suffix="mm/s" step={1} />
+                  </div>
+                  <InputGroup label="Retract Min Travel" value={printerSettings.retractionMinTravel} onChange={(v: number) => setPrinterSettings({...printerSettings, retractionMinTravel: v})} suffix="mm" />
+                  <div className="grid grid-cols-2 gap-2">
+                    <InputGroup label="Wipe Distance" value={printerSettings.wipeDistance} onChange={(v: number) => setPrinterSettings({...printerSettings, wipeDistance: v})} suffix="mm" />
+                    <InputGroup label="Extra Restart" value={printerSettings.retractionExtraRestart} onChange={(v: number) => setPrinterSettings({...printerSettings, retractionExtraRestart: v})} suffix="mm" step={0.05} />
+                  </div>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="text-xs text-slate-400 font-medium uppercase">Relative Extrusion (M83)</label>
+                    <input type="checkbox" checked={printerSettings.relativeExtrusion} onChange={(e) => setPrinterSettings({...printerSettings, relativeExtrusion: e.target.checked})} className="accent-blue-500 h-4 w-4 rounded border-slate-700 bg-slate-800" />
+                  </div>
                 </>
               )}
+
+              <div className="grid grid-cols-2 gap-2">
+                <InputGroup label="Acceleration" value={printerSettings.acceleration} onChange={(v: number) => setPrinterSettings({...printerSettings, acceleration: v})} suffix="mm/s²" step={100} />
+                <InputGroup label="Junction Dev." value={printerSettings.junctionDeviation} onChange={(v: number) => setPrinterSettings({...printerSettings, junctionDeviation: v})} suffix="mm" step={0.01} />
+              </div>
+
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-xs text-slate-400 font-medium uppercase">Arc Fitting (G2/G3)</label>
+                <input type="checkbox" checked={printerSettings.arcFitting} onChange={(e) => setPrinterSettings({...printerSettings, arcFitting: e.target.checked})} className="accent-blue-500 h-4 w-4 rounded border-slate-700 bg-slate-800" />
+              </div>
+              {printerSettings.arcFitting && (
+                <InputGroup label="Arc Tolerance" value={printerSettings.arcTolerance} onChange={(v: number) => setPrinterSettings({...printerSettings, arcTolerance: v})} suffix="mm" step={0.01} />
+              )}
               
-              <InputGroup label="Print Speed" value={printerSettings.printSpeed / 60} onChange={(v: number) => setPrinterSettings({...printerSettings, printSpeed: v * 60})} suffix="mm/s" step={1} />
+              {modelSettings.isLaserMode ? (
+                  <div className="mt-2 space-y-2">
+                      <InputGroup label="Max Power S Value" value={printerSettings.laserMaxS} onChange={(v: number) => setPrinterSettings({...printerSettings, laserMaxS: v})} step={1} min={1} />
+                      <div className="flex items-center justify-between mb-2">
+                        <label className="text-xs text-slate-400 font-medium uppercase">Dynamic Power (M4)</label>
+                        <input type="checkbox" checked={printerSettings.laserDynamicPower} onChange={(e) => setPrinterSettings({...printerSettings, laserDynamicPower: e.target.checked})} className="accent-blue-500 h-4 w-4 rounded border-slate-700 bg-slate-800" />
+                      </div>
+                  </div>
+              ) : (
+                  <InputGroup label="Print Speed" value={printerSettings.printSpeed / 60} onChange={(v: number) => setPrinterSettings({...printerSettings, printSpeed: v * 60})} suffix="mm/s" step={1} />
+              )}
               
-              {modelSettings.isPlotterMode && (
+              {modelSettings.isPlotterMode && !modelSettings.isLaserMode && (
                   <div className="mt-2 space-y-2">
-                      <InputGroup label="Z-Hop Height" value={printerSettings.zHop} onChange={(v: number) => setPrinterSettings({...printerSettings, zHop: v})} suffix="mm" step={0.5} />
+                      <div className="flex flex-col gap-1 mb-3">
+                          <label className="text-xs text-slate-400 font-medium uppercase tracking-wider">Pen Lift</label>
+                          <div className="flex items-center bg-slate-800 rounded px-3 py-2 border border-slate-700 focus-within:border-blue-500 transition-colors">
+                              <select 
+                                  value={printerSettings.penLift} 
+                                  onChange={(e) => setPrinterSettings({...printerSettings, penLift: e.target.value as PenLiftMode})}
+                                  className="bg-transparent text-sm text-white w-full focus:outline-none cursor-pointer"
+                              >
+                                  <option value="zhop">Z-Hop</option>
+                                  <option value="servo">Servo (M280)</option>
+                                  <option value="custom">Custom G-code</option>
+                              </select>
+                          </div>
+                      </div>
+                      {printerSettings.penLift === 'zhop' && (
+                          <InputGroup label="Z-Hop Height" value={printerSettings.zHop} onChange={(v: number) => setPrinterSettings({...printerSettings, zHop: v})} suffix="mm" step={0.5} />
+                      )}
+                      {printerSettings.penLift === 'servo' && (
+                          <div className="grid grid-cols-2 gap-2">
+                              <InputGroup label="Up Angle" value={printerSettings.penUpAngle} onChange={(v: number) => setPrinterSettings({...printerSettings, penUpAngle: v})} suffix="°" step={1} />
+                              <InputGroup label="Down Angle" value={printerSettings.penDownAngle} onChange={(v: number) => setPrinterSettings({...printerSettings, penDownAngle: v})} suffix="°" step={1} />
+                          </div>
+                      )}
+                      {printerSettings.penLift === 'custom' && (
+                          <>
+                              <div className="flex flex-col gap-1 mb-3">
+                                  <label className="text-xs text-slate-400 font-medium uppercase tracking-wider">Pen Up G-code</label>
+                                  <textarea 
+                                      value={printerSettings.penUpGCode}
+                                      onChange={(e) => setPrinterSettings({...printerSettings, penUpGCode: e.target.value})}
+                                      className="w-full h-16 bg-slate-800 border border-slate-700 rounded p-2 text-xs font-mono text-slate-300 focus:outline-none focus:border-blue-500 resize-none"
+                                      placeholder="M107"
+                                  />
+                              </div>
+                              <div className="flex flex-col gap-1 mb-3">
+                                  <label className="text-xs text-slate-400 font-medium uppercase tracking-wider">Pen Down G-code</label>
+                                  <textarea 
+                                      value={printerSettings.penDownGCode}
+                                      onChange={(e) => setPrinterSettings({...printerSettings, penDownGCode: e.target.value})}
+                                      className="w-full h-16 bg-slate-800 border border-slate-700 rounded p-2 text-xs font-mono text-slate-300 focus:outline-none focus:border-blue-500 resize-none"
+                                      placeholder="M106 S255"
+                                  />
+                              </div>
+                          </>
+                      )}
+                      <InputGroup label="Pen Down Dwell" value={printerSettings.penDownDwell} onChange={(v: number) => setPrinterSettings({...printerSettings, penDownDwell: v})} suffix="ms" step={10} />
+                      <div className="flex flex-col gap-1 mb-3">
+                          <label className="text-xs text-slate-400 font-medium uppercase tracking-wider">Pen Change Pause</label>
+                          <div className="flex items-center bg-slate-800 rounded px-3 py-2 border border-slate-700 focus-within:border-blue-500 transition-colors">
+                              <select 
+                                  value={printerSettings.penChangeCommand} 
+                                  onChange={(e) => setPrinterSettings({...printerSettings, penChangeCommand: e.target.value as PenChangeCommand})}
+                                  className="bg-transparent text-sm text-white w-full focus:outline-none cursor-pointer"
+                              >
+                                  <option value="M0">M0 (Pause)</option>
+                                  <option value="M600">M600 (Change Routine)</option>
+                              </select>
+                          </div>
+                      </div>
                       
                       <div className="p-3 bg-slate-800/50 rounded text-xs text-slate-400 border border-slate-800">
                           <p className="font-semibold text-slate-300 mb-1">Plotter Mode Active</p>
@@ -282,11 +695,81 @@ export default function App() {
             </div>
           </div>
 
+          {/* Section: Build Plate */}
+          {!preview && plate.length > 0 && (
+            <div>
+              <h2 className="flex items-center gap-2 text-white font-semibold mb-4 text-sm">
+                <LayoutGrid className="w-4 h-4 text-blue-500" />
+                Build Plate
+              </h2>
+              <div className="space-y-1 mb-3">
+                {plate.map(object => (
+                  <div
+                    key={object.id}
+                    onClick={() => setSelectedId(object.id)}
+                    className={`flex items-center gap-2 text-xs px-2 py-1.5 rounded cursor-pointer border ${object.id === selected?.id ? 'bg-slate-800 border-blue-500/60 text-white' : 'border-transparent text-slate-400 hover:bg-slate-800/60'}`}
+                  >
+                    <span className="flex-1 truncate">{object.name}</span>
+                    <span className="font-mono text-slate-500">{object.settings.offsetX}, {object.settings.offsetY}</span>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); removeObject(object.id); }}
+                      className="text-slate-500 hover:text-white"
+                      title="Remove from plate"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <label className="cursor-pointer bg-slate-800 hover:bg-slate-700 text-xs px-3 py-1.5 rounded border border-slate-700 flex items-center justify-center gap-2 text-slate-200 mb-3">
+                <Plus className="w-3 h-3" />
+                Add file to plate
+                <input type="file" accept=".svg,.jpg,.jpeg,.png" className="hidden" onChange={handleAddToPlate} />
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                <InputGroup label="Copies" value={copyCount} onChange={(v: number) => setCopyCount(v)} step={1} min={1} />
+                <div className="flex flex-col gap-1 mb-3 justify-end">
+                  <button
+                    onClick={handleAddCopies}
+                    disabled={!selected || !(copyCount >= 1)}
+                    className="bg-slate-800 hover:bg-slate-700 text-xs px-3 py-2 rounded border border-slate-700 text-slate-200 disabled:opacity-40"
+                    title="Add copies of the selected object in the free space on the bed"
+                  >
+                    Add copies
+                  </button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="flex flex-col gap-1 mb-3">
+                    <label className="text-xs text-slate-400 font-medium uppercase tracking-wider">Arrange</label>
+                    <div className="flex items-center bg-slate-800 rounded px-3 py-2 border border-slate-700 focus-within:border-blue-500 transition-colors">
+                        <select
+                            value={arrangeMode}
+                            onChange={(e) => setArrangeMode(e.target.value as ArrangeMode)}
+                            className="bg-transparent text-sm text-white w-full focus:outline-none cursor-pointer"
+                        >
+                            <option value="grid">Grid</option>
+                            <option value="pack">Bin Pack</option>
+                        </select>
+                    </div>
+                </div>
+                <InputGroup label="Spacing" value={arrangeSpacing} onChange={(v: number) => setArrangeSpacing(v)} step={1} suffix="mm" />
+              </div>
+              <button
+                onClick={() => arrange(plate)}
+                className="w-full bg-slate-800 hover:bg-slate-700 text-xs px-3 py-2 rounded border border-slate-700 text-slate-200"
+              >
+                Arrange plate
+              </button>
+            </div>
+          )}
+
           {/* Section: Model */}
           <div>
             <h2 className="flex items-center gap-2 text-white font-semibold mb-4 text-sm">
               <svg className="w-4 h-4 text-blue-500" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><rect x="3" y="3" width="18" height="18" rx="2" /></svg>
               Model Settings
+              {plate.length > 1 && selected && <span className="text-xs font-normal text-slate-500 truncate">— {selected.name}</span>}
             </h2>
             <div className="space-y-1">
               {!modelSettings.isPlotterMode && (
@@ -294,40 +777,152 @@ export default function App() {
               )}
               
               <InputGroup label="XY Scale" value={modelSettings.scale} onChange={(v: number) => setModelSettings({...modelSettings, scale: v})} step={0.1} suffix="x" />
+              <div className="flex flex-col gap-1 mb-3">
+                  <label className="text-xs text-slate-400 font-medium uppercase tracking-wider">Anchor</label>
+                  <div className="flex items-center bg-slate-800 rounded px-3 py-2 border border-slate-700 focus-within:border-blue-500 transition-colors">
+                      <select
+                          value={modelSettings.anchor}
+                          onChange={(e) => setModelSettings({...modelSettings, anchor: e.target.value as PlacementAnchor})}
+                          className="bg-transparent text-sm text-white w-full focus:outline-none cursor-pointer"
+                      >
+                          <option value="center">Bed Center</option>
+                          <option value="front-left">Front Left</option>
+                          <option value="front-right">Front Right</option>
+                          <option value="back-left">Back Left</option>
+                          <option value="back-right">Back Right</option>
+                      </select>
+                  </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <InputGroup label="Offset X" value={modelSettings.offsetX} onChange={(v: number) => setModelSettings({...modelSettings, offsetX: v})} step={1} min={-1000} suffix="mm" />
+                <InputGroup label="Offset Y" value={modelSettings.offsetY} onChange={(v: number) => setModelSettings({...modelSettings, offsetY: v})} step={1} min={-1000} suffix="mm" />
+              </div>
+              <InputGroup label="Rotation" value={modelSettings.rotation} onChange={(v: number) => setModelSettings({...modelSettings, rotation: v})} step={15} min={-360} suffix="°" />
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-xs text-slate-400 font-medium uppercase">Mirror Horizontal</label>
+                <input type="checkbox" checked={modelSettings.mirrorX} onChange={(e) => setModelSettings({...modelSettings, mirrorX: e.target.checked})} className="accent-blue-500 h-4 w-4 rounded border-slate-700 bg-slate-800" />
+              </div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-xs text-slate-400 font-medium uppercase">Mirror Vertical</label>
+                <input type="checkbox" checked={modelSettings.mirrorY} onChange={(e) => setModelSettings({...modelSettings, mirrorY: e.target.checked})} className="accent-blue-500 h-4 w-4 rounded border-slate-700 bg-slate-800" />
+              </div>
+              {fileType === 'svg' && (
+                <InputGroup label="Curve Tolerance" value={modelSettings.curveTolerance} onChange={(v: number) => setModelSettings({...modelSettings, curveTolerance: v})} step={0.01} suffix="mm" />
+              )}
               
               {!modelSettings.isPlotterMode ? (
                   <>
+                    <InputGroup label="Wall Count" value={modelSettings.wallCount} onChange={(v: number) => setModelSettings({...modelSettings, wallCount: v})} step={1} min={1} />
+                    <div className="grid grid-cols-2 gap-2">
+                      <InputGroup label="Top Layers" value={modelSettings.topLayers} onChange={(v: number) => setModelSettings({...modelSettings, topLayers: v})} step={1} />
+                      <InputGroup label="Bottom Layers" value={modelSettings.bottomLayers} onChange={(v: number) => setModelSettings({...modelSettings, bottomLayers: v})} step={1} />
+                    </div>
                     <div className="flex items-center justify-between mb-2">
                         <label className="text-xs text-slate-400 font-medium uppercase">Generate Infill</label>
                         <input type="checkbox" checked={modelSettings.generateInfill} onChange={(e) => setModelSettings({...modelSettings, generateInfill: e.target.checked})} className="accent-blue-500 h-4 w-4 rounded border-slate-700 bg-slate-800" />
                     </div>
                     {modelSettings.generateInfill && (
-                        <InputGroup label="Infill Density" value={modelSettings.fillDensity} onChange={(v: number) => setModelSettings({...modelSettings, fillDensity: v})} suffix="%" step={1} min={1} />
+                        <>
+                          <InputGroup label="Infill Density" value={modelSettings.fillDensity} onChange={(v: number) => setModelSettings({...modelSettings, fillDensity: v})} suffix="%" step={1} min={1} />
+                          <div className="flex flex-col gap-1 mb-3">
+                              <label className="text-xs text-slate-400 font-medium uppercase tracking-wider">Infill Pattern</label>
+                              <div className="flex items-center bg-slate-800 rounded px-3 py-2 border border-slate-700 focus-within:border-blue-500 transition-colors">
+                                  <select 
+                                      value={modelSettings.infillPattern} 
+                                      onChange={(e) => setModelSettings({...modelSettings, infillPattern: e.target.value as InfillPattern})}
+                                      className="bg-transparent text-sm text-white w-full focus:outline-none cursor-pointer"
+                                  >
+                                      <option value="rectilinear">Rectilinear (±45° alternating)</option>
+                                      <option value="grid">Grid</option>
+                                      <option value="triangles">Triangles</option>
+                                      <option value="honeycomb">Honeycomb</option>
+                                      <option value="concentric">Concentric</option>
+                                      <option value="gyroid">Gyroid</option>
+                                  </select>
+                              </div>
+                          </div>
+                          <InputGroup label="Infill Overlap" value={modelSettings.infillOverlap} onChange={(v: number) => setModelSettings({...modelSettings, infillOverlap: v})} suffix="%" step={5} />
+                        </>
+                    )}
+                    {fileType === 'image' && (
+                        <InputGroup label="Trace Threshold" value={modelSettings.traceThreshold} onChange={(v: number) => setModelSettings({...modelSettings, traceThreshold: v})} step={1} min={1} suffix="/255" />
                     )}
                   </>
+              ) : modelSettings.isLaserMode ? (
+                  fileType === 'image' ? (
+                    <>
+                      <div className="grid grid-cols-2 gap-2">
+                        <InputGroup label="Min Power" value={modelSettings.laserMinPower} onChange={(v: number) => setModelSettings({...modelSettings, laserMinPower: v})} suffix="%" step={1} />
+                        <InputGroup label="Max Power" value={modelSettings.laserMaxPower} onChange={(v: number) => setModelSettings({...modelSettings, laserMaxPower: v})} suffix="%" step={1} />
+                      </div>
+                      <InputGroup label="Raster Speed" value={modelSettings.laserRasterSpeed / 60} onChange={(v: number) => setModelSettings({...modelSettings, laserRasterSpeed: v * 60})} suffix="mm/s" step={1} />
+                      <InputGroup label="Overscan" value={modelSettings.laserOverscan} onChange={(v: number) => setModelSettings({...modelSettings, laserOverscan: v})} suffix="mm" step={0.5} />
+                      <div className="flex items-center justify-between mb-2">
+                        <label className="text-xs text-slate-400 font-medium uppercase">Bidirectional Scan</label>
+                        <input type="checkbox" checked={modelSettings.laserBidirectional} onChange={(e) => setModelSettings({...modelSettings, laserBidirectional: e.target.checked})} className="accent-blue-500 h-4 w-4 rounded border-slate-700 bg-slate-800" />
+                      </div>
+                    </>
+                  ) : (
+                    <>
+                      {svgPlotModeSelect}
+                      <InputGroup label="Cut Power" value={modelSettings.laserCutPower} onChange={(v: number) => setModelSettings({...modelSettings, laserCutPower: v})} suffix="%" step={1} />
+                      <InputGroup label="Cut Speed" value={modelSettings.laserCutSpeed / 60} onChange={(v: number) => setModelSettings({...modelSettings, laserCutSpeed: v * 60})} suffix="mm/s" step={0.5} />
+                      <InputGroup label="Passes" value={modelSettings.laserPasses} onChange={(v: number) => setModelSettings({...modelSettings, laserPasses: v})} step={1} min={1} />
+                    </>
+                  )
               ) : (
-                  // Hatch Style selector for Plotter Mode (Only relevant for Images really, but exposed for logic)
-                  fileType === 'image' && (
-                    <div className="flex flex-col gap-1 mb-3">
-                        <label className="text-xs text-slate-400 font-medium uppercase tracking-wider">Hatch Pattern</label>
-                        <div className="flex items-center bg-slate-800 rounded px-3 py-2 border border-slate-700 focus-within:border-blue-500 transition-colors">
-                            <select 
-                                value={modelSettings.hatchStyle} 
-                                onChange={(e) => setModelSettings({...modelSettings, hatchStyle: e.target.value as HatchStyle})}
-                                className="bg-transparent text-sm text-white w-full focus:outline-none cursor-pointer"
-                            >
-                                <option value="cross">Cross Hatch</option>
-                                <option value="diagonal">Diagonal</option>
-                                <option value="horizontal">Horizontal</option>
-                                <option value="vertical">Vertical</option>
-                            </select>
-                        </div>
-                    </div>
+                  // Plotter Mode: hatch style for images; draw choice and optional fill hatching for SVGs
+                  fileType === 'image' ? hatchStyleSelect : (
+                    <>
+                      {svgPlotModeSelect}
+                      <div className="flex items-center justify-between mb-2">
+                          <label className="text-xs text-slate-400 font-medium uppercase">Hatch Fills</label>
+                          <input type="checkbox" checked={modelSettings.hatchFills} onChange={(e) => setModelSettings({...modelSettings, hatchFills: e.target.checked})} className="accent-blue-500 h-4 w-4 rounded border-slate-700 bg-slate-800" />
+                      </div>
+                      {modelSettings.hatchFills && (
+                          <>
+                            {hatchStyleSelect}
+                            <div className="flex items-center justify-between mb-2">
+                                <label className="text-xs text-slate-400 font-medium uppercase">Density From Lightness</label>
+                                <input type="checkbox" checked={modelSettings.hatchByLightness} onChange={(e) => setModelSettings({...modelSettings, hatchByLightness: e.target.checked})} className="accent-blue-500 h-4 w-4 rounded border-slate-700 bg-slate-800" />
+                            </div>
+                          </>
+                      )}
+                    </>
                   )
               )}
             </div>
           </div>
 
+          {/* Section: Pens (multi-color SVG plotting) */}
+          {modelSettings.isPlotterMode && !modelSettings.isLaserMode && penColors.length > 1 && (
+            <div>
+              <h2 className="flex items-center gap-2 text-white font-semibold mb-4 text-sm">
+                <Palette className="w-4 h-4 text-blue-500" />
+                Pens
+              </h2>
+              <div className="space-y-1">
+                {penColors.map((color, i) => {
+                  const skipped = modelSettings.skippedPens.includes(color);
+                  const lastPen = !skipped && enabledPens.length <= 1;
+                  return (
+                    <div key={color} className={`flex items-center gap-2 bg-slate-800 rounded px-2 py-1.5 border border-slate-700 text-xs ${skipped ? 'opacity-50' : ''}`}>
+                      <input type="checkbox" checked={!skipped} disabled={lastPen} onChange={() => togglePen(color)} className="accent-blue-500 h-4 w-4 rounded border-slate-700 bg-slate-800 disabled:opacity-50" title={lastPen ? 'At least one pen has to plot' : 'Plot this color'} />
+                      <span className="w-4 h-4 rounded border border-slate-600" style={{ backgroundColor: color }}></span>
+                      <span className="font-mono text-slate-300 flex-1">{i + 1}. {color}</span>
+                      <button onClick={() => movePen(i, -1)} disabled={i === 0} className="text-slate-400 hover:text-white disabled:opacity-30" title="Plot earlier">
+                        <ChevronUp className="w-3 h-3" />
+                      </button>
+                      <button onClick={() => movePen(i, 1)} disabled={i === penColors.length - 1} className="text-slate-400 hover:text-white disabled:opacity-30" title="Plot later">
+                        <ChevronDown className="w-3 h-3" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
            {/* Section: Start G-Code */}
            <div>
             <h2 className="flex items-center gap-2 text-white font-semibold mb-4 text-sm">
@@ -368,19 +963,95 @@ export default function App() {
              <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-10">
                 <div className="text-center space-y-4 opacity-50">
                     <Upload className="w-16 h-16 mx-auto text-slate-600" />
-                    <p className="text-xl font-medium text-slate-400">Drag & Drop SVG or Image here</p>
+                    <p className="text-xl font-medium text-slate-400">Drag & Drop SVG, Image or G-code here</p>
                 </div>
              </div>
           )}
 
-          <div className="flex-1 relative">
-             <GCodeViewer gcode={gcode} bedWidth={printerSettings.bedWidth} bedDepth={printerSettings.bedDepth} />
+          {gcode && (
+            <div className="mb-3 flex items-center gap-3 text-xs text-slate-400">
+              {!preview && plate.length > 0 && (
+                <button
+                  onClick={handleFitToBed}
+                  disabled={isGenerating}
+                  className="bg-slate-800 hover:bg-slate-700 px-3 py-1.5 rounded border border-slate-700 flex items-center gap-2 text-slate-200 disabled:opacity-40"
+                  title={`Scale the job to the largest size that keeps ${printerSettings.bedMargin} mm from the bed edges`}
+                >
+                  <Maximize className="w-3 h-3" />
+                  Fit to bed
+                </button>
+              )}
+              <label className="cursor-pointer bg-slate-800 hover:bg-slate-700 px-3 py-1.5 rounded border border-slate-700 flex items-center gap-2 text-slate-200">
+                <Columns className="w-3 h-3" />
+                {compare ? 'Replace comparison' : 'Compare with G-code…'}
+                <input type="file" accept={GCODE_EXTENSIONS.join(',')} className="hidden" onChange={handleCompareUpload} />
+              </label>
+              {compare && (
+                <>
+                  <div className="flex items-center bg-slate-800 rounded p-0.5 border border-slate-700">
+                    {(['overlay', 'side'] as const).map(layout => (
+                      <button
+                        key={layout}
+                        onClick={() => setCompareLayout(layout)}
+                        className={`px-2 py-1 rounded transition-all ${compareLayout === layout ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                      >
+                        {layout === 'overlay' ? 'Overlay' : 'Side by side'}
+                      </button>
+                    ))}
+                  </div>
+                  <span className="truncate">
+                    {compare.name}
+                    {compareEstimate && ` • ~${formatDuration(compareEstimate.time)}`}
+                    {compareEstimate && compareEstimate.filamentLength > 0 && ` • ${(compareEstimate.filamentLength / 1000).toFixed(2)} m`}
+                  </span>
+                  <button onClick={() => setCompare(null)} className="p-1 rounded hover:bg-slate-800 hover:text-white" title="Stop comparing">
+                    <X className="w-3 h-3" />
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+
+          <div className={`flex-1 relative ${compare && compareLayout === 'side' ? 'grid grid-cols-2 gap-3' : ''}`}>
+             <GCodeViewer
+                gcode={gcode}
+                bedWidth={printerSettings.bedWidth}
+                bedDepth={printerSettings.bedDepth}
+                nozzleDiameter={printerSettings.nozzleDiameter}
+                layerHeight={printerSettings.layerHeight}
+                label={fileName}
+                boundsProblems={bedCheck?.problems}
+                onFitToBed={!preview && plate.length > 0 ? handleFitToBed : undefined}
+                objects={preview ? undefined : plateHandles}
+                selectedObject={selected?.id}
+                onSelectObject={setSelectedId}
+                onMoveObject={!preview ? handleMoveObject : undefined}
+                overlay={compare && compareLayout === 'overlay' ? { gcode: compare.gcode, label: compare.name } : undefined}
+             />
+             {compare && compareLayout === 'side' && (
+               <GCodeViewer
+                  gcode={compare.gcode}
+                  bedWidth={printerSettings.bedWidth}
+                  bedDepth={printerSettings.bedDepth}
+                  nozzleDiameter={printerSettings.nozzleDiameter}
+                  layerHeight={printerSettings.layerHeight}
+                  label={compare.name}
+               />
+             )}
           </div>
           
           <div className="mt-4 flex justify-between items-center text-xs text-slate-500">
              <div>
-                {gcode ? `${gcode.split('\n').length} lines of G-Code generated` : 'Ready'}
+                {gcode ? `${gcode.split('\n').length} lines of G-Code ${fileType === 'gcode' ? 'loaded' : 'generated'}` : 'Ready'}
                 {fileType === 'image' && ' (Raster Processing)'}
+                {estimate && (
+                  <span className="ml-3 text-slate-400">
+                    ~{formatDuration(estimate.time)}
+                    {estimate.filamentLength > 0 && ` • ${(estimate.filamentLength / 1000).toFixed(2)} m / ${estimate.filamentWeight.toFixed(1)} g filament`}
+                    {` • ${estimate.filamentLength > 0 ? 'print' : 'draw'} ${(estimate.drawDistance / 1000).toFixed(2)} m, travel ${(estimate.travelDistance / 1000).toFixed(2)} m`}
+                    {estimate.penLifts > 0 && !modelSettings.isLaserMode && ` • ${estimate.penLifts} pen lifts`}
+                  </span>
+                )}
              </div>
              <div>
                 Use Left Click to Rotate • Right Click to Pan • Scroll to Zoom
@@ -1,33 +1,210 @@
 import React, { useMemo, useRef, useEffect, useState } from 'react';
-import { Canvas, useThree } from '@react-three/fiber';
-import { OrbitControls, Grid } from '@react-three/drei';
-import { Eye, EyeOff } from 'lucide-react';
+import { Canvas, useThree, ThreeEvent } from '@react-three/fiber';
+import { OrbitControls, Grid, Html } from '@react-three/drei';
+import { Eye, EyeOff, Play, Pause, AlertTriangle } from 'lucide-react';
 import * as THREE from 'three';
+import { parseGCode, movePoints, moveLength, PEN_MARKER } from '../services/gcodeParser';
+import { GCodeMove } from '../types';
 
 interface Bounds {
   min: THREE.Vector3;
   max: THREE.Vector3;
 }
 
+// Compared program drawn over the main one in a single color
+const OVERLAY_COLOR = new THREE.Color('#e879f9');
+
+// Plot lines without a pen marker
+const DEFAULT_PLOT_COLOR = '#10b981';
+
+// Very dark pens (black ink) would vanish against the bed, so lift them towards slate
+const penDisplayColor = (hex: string): THREE.Color => {
+  const color = new THREE.Color(hex);
+  const hsl = { h: 0, s: 0, l: 0 };
+  color.getHSL(hsl);
+  if (hsl.l < 0.35) color.lerp(new THREE.Color('#94a3b8'), 0.6);
+  return color;
+};
+
 interface GCodeViewerProps {
   gcode: string;
   bedWidth: number;
   bedDepth: number;
+  nozzleDiameter: number; // Tube width
+  layerHeight: number; // Tube height when the job itself doesn't tell (single layer)
+  label?: string; // Name shown in the comparison legend
+  overlay?: { gcode: string; label: string }; // Second program drawn over this one for comparison
+  boundsProblems?: string[]; // Why the job leaves the bed; shown over the preview
+  onFitToBed?: () => void; // Offered when the job can be rescaled to fit
+  // Placed objects with their bed footprints, for the placement handles
+  objects?: { id: string; label: string; footprint: { minX: number; minY: number; maxX: number; maxY: number } }[];
+  selectedObject?: string | null;
+  onSelectObject?: (id: string) => void;
+  onMoveObject?: (id: string, dx: number, dy: number) => void; // Object dragged on the bed by (dx, dy) mm
 }
 
+type ColorMode = 'type' | 'feature' | 'feedrate' | 'layer' | 'extrusionRate';
+type RenderMode = 'lines' | 'tubes';
+
+const COLOR_MODES: { id: ColorMode; label: string }[] = [
+  { id: 'type', label: 'Move type' },
+  { id: 'feature', label: 'Feature' },
+  { id: 'feedrate', label: 'Feedrate' },
+  { id: 'layer', label: 'Layer' },
+  { id: 'extrusionRate', label: 'Extrusion rate' },
+];
+
+// Above this many extrusion segments tubes get too heavy; lines are used instead
+const MAX_TUBE_SEGMENTS = 400000;
+
+const EXTRUSION_COLOR = new THREE.Color('#ef4444');
+const TRAVEL_COLOR = new THREE.Color('#3b82f6');
+// Moves a gradient doesn't apply to (e.g. plotting when coloring by extrusion rate)
+const NEUTRAL_COLOR = new THREE.Color('#64748b');
+
+const FEATURE_COLORS = {
+  perimeter: new THREE.Color('#f97316'),
+  infill: new THREE.Color('#a855f7'),
+  solid: new THREE.Color('#ec4899'),
+  extrusion: EXTRUSION_COLOR,
+  plot: new THREE.Color(DEFAULT_PLOT_COLOR),
+  travel: TRAVEL_COLOR,
+};
+type FeatureCategory = keyof typeof FEATURE_COLORS;
+
+// Slicers name features differently (Cura "WALL-OUTER"/"SKIN", PrusaSlicer "External perimeter"/"Solid infill")
+const featureCategory = (move: GCodeMove): FeatureCategory => {
+  if (move.type !== 'extrusion') return move.type === 'plot' ? 'plot' : 'travel';
+  const feature = (move.feature || '').toLowerCase();
+  if (/perimeter|wall|shell/.test(feature)) return 'perimeter';
+  if (/solid|skin|top|bottom/.test(feature)) return 'solid';
+  if (/infill|fill/.test(feature)) return 'infill';
+  return 'extrusion';
+};
+
+// Blue (low) to red (high)
+const gradientColor = (t: number): THREE.Color =>
+  new THREE.Color().setHSL(0.66 * (1 - Math.max(0, Math.min(1, t))), 0.85, 0.55);
+
+// Filament speed (mm of filament per second) while a move extrudes
+const extrusionRate = (move: GCodeMove): number => {
+  const length = moveLength(move);
+  return length > 0 && move.extrusion > 0 ? move.extrusion / length * move.feedrate / 60 : 0;
+};
+
+// Value range a gradient mode spreads over, from the moves it applies to
+const gradientRange = (moves: GCodeMove[], mode: ColorMode, layerCount: number): { min: number; max: number } | null => {
+  if (mode === 'layer') return { min: 0, max: Math.max(0, layerCount - 1) };
+  if (mode !== 'feedrate' && mode !== 'extrusionRate') return null;
+  let min = Infinity, max = -Infinity;
+  for (const move of moves) {
+    if (mode === 'feedrate' ? move.type === 'travel' || move.type === 'retract' : move.type !== 'extrusion') continue;
+    const value = mode === 'feedrate' ? move.feedrate : extrusionRate(move);
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  return min === Infinity ? null : { min, max };
+};
+
+// Vertex offsets per move: geometry vertices [offsets[i], offsets[i + 1]) belong to move i
+type MoveOffsets = Uint32Array;
+
+// Playback speeds for the move scrubber, in moves per second
+const PLAYBACK_SPEEDS = [10, 50, 250, 1000, 5000];
+
+// G-code lines shown above and below the current one in the line panel
+const LINE_CONTEXT = 8;
+
+// Extrusion as boxes, one instance per segment: nozzle-wide, one layer tall, hanging below the
+// nozzle position. Ends overlap by half a width so corners close, like a real bead.
+const ExtrusionTubes: React.FC<{
+  positions: Float32Array; // Segment endpoints, 6 floats per segment
+  colors: Float32Array; // Per vertex, 6 floats per segment (start color used)
+  visible: { start: number; end: number }; // Segment range to draw
+  width: number;
+  height: number;
+}> = ({ positions, colors, visible, width, height }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const count = positions.length / 6;
+  const geometry = useMemo(() => new THREE.BoxGeometry(1, 1, 1), []);
+
+  // All instance matrices, kept so the layer range can hide a prefix and bring it back
+  const matrices = useMemo(() => {
+    const out = new Float32Array(count * 16);
+    const m = new THREE.Matrix4();
+    const q = new THREE.Quaternion();
+    const a = new THREE.Vector3(), b = new THREE.Vector3(), dir = new THREE.Vector3(), mid = new THREE.Vector3();
+    const xAxis = new THREE.Vector3(1, 0, 0);
+    const scale = new THREE.Vector3();
+    for (let i = 0; i < count; i++) {
+      a.fromArray(positions, i * 6);
+      b.fromArray(positions, i * 6 + 3);
+      dir.subVectors(b, a);
+      const length = dir.length();
+      if (length > 0) q.setFromUnitVectors(xAxis, dir.divideScalar(length));
+      else q.identity();
+      mid.addVectors(a, b).multiplyScalar(0.5);
+      mid.z -= height / 2;
+      scale.set(length + width / 2, width, height);
+      m.compose(mid, q, scale).toArray(out, i * 16);
+    }
+    return out;
+  }, [positions, count, width, height]);
+
+  useEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const array = mesh.instanceMatrix.array as Float32Array;
+    array.set(matrices);
+    // Segments before the range are collapsed; the range end is handled by the instance count
+    array.fill(0, 0, Math.min(visible.start, count) * 16);
+    mesh.instanceMatrix.needsUpdate = true;
+    mesh.count = Math.max(0, Math.min(visible.end, count));
+  }, [matrices, visible.start, visible.end, count]);
+
+  useEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const color = new THREE.Color();
+    for (let i = 0; i < count; i++) {
+      mesh.setColorAt(i, color.fromArray(colors, i * 6));
+    }
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  }, [colors, count]);
+
+  if (count === 0) return null;
+  return (
+    <instancedMesh ref={meshRef} args={[geometry, undefined, count]} key={count}>
+      <meshStandardMaterial roughness={0.6} metalness={0.05} />
+    </instancedMesh>
+  );
+};
+
 const GCodeVisualization: React.FC<{ 
   gcode: string; 
+  moves: GCodeMove[];
+  layerCount: number;
+  visibleMoves: { start: number; end: number }; // [start, end) of moves to draw
   onBoundsCalculated: (bounds: Bounds | null) => void;
   visibleTypes: { extrusion: boolean, plot: boolean, travel: boolean };
-}> = ({ gcode, onBoundsCalculated, visibleTypes }) => {
+  colorMode: ColorMode;
+  renderMode: RenderMode;
+  tubeWidth: number;
+  tubeHeight: number;
+  tint?: THREE.Color; // Draw every move in this color instead of the color mode (comparison overlay)
+}> = ({ gcode, moves, layerCount, visibleMoves, onBoundsCalculated, visibleTypes, colorMode, renderMode, tubeWidth, tubeHeight, tint }) => {
   const previousGcode = useRef<string>('');
 
-  const { extrusionGeo, plotGeo, travelGeo, bounds } = useMemo(() => {
-    if (!gcode) return { extrusionGeo: null, plotGeo: null, travelGeo: null, bounds: null };
+  const { extrusionGeo, plotGeo, travelGeo, extrusionPositions, segmentMoves, offsets, bounds } = useMemo(() => {
+    if (!gcode) return { extrusionGeo: null, plotGeo: null, travelGeo: null, extrusionPositions: null, segmentMoves: null, offsets: null, bounds: null };
 
     const extrusionPoints: number[] = [];
     const plotPoints: number[] = [];
     const travelPoints: number[] = [];
+    // Move index of every segment, so colors can be recomputed without rebuilding positions
+    const extrusionMoves: number[] = [];
+    const plotMoves: number[] = [];
+    const travelMoves: number[] = [];
     
     // Track bounds
     let minX = Infinity, minY = Infinity, minZ = Infinity;
@@ -39,78 +216,34 @@ const GCodeVisualization: React.FC<{
       if (z < minZ) minZ = z; if (z > maxZ) maxZ = z;
     };
 
-    // Parser State
-    let x = 0, y = 0, z = 0, e = 0;
-    let cx = 0, cy = 0, cz = 0, ce = 0;
-    let isRelative = false; // G91 support roughly
-    
-    const splitLines = gcode.split('\n');
-    
-    for (const line of splitLines) {
-      const parts = line.split(';')[0].trim().toUpperCase().split(' ');
-      if (parts.length === 0 || parts[0] === '') continue;
+    // Moves are added in program order, so any range of moves is a contiguous vertex range
+    const extrusionOffsets: MoveOffsets = new Uint32Array(moves.length + 1);
+    const plotOffsets: MoveOffsets = new Uint32Array(moves.length + 1);
+    const travelOffsets: MoveOffsets = new Uint32Array(moves.length + 1);
 
-      const cmd = parts[0];
-      
-      if (cmd === 'G90') isRelative = false;
-      if (cmd === 'G91') isRelative = true;
-
-      if (cmd === 'G0' || cmd === 'G1') {
-        let hasMove = false;
-        let newE = e; // Check for E change
-
-        // Parse params
-        for (let i = 1; i < parts.length; i++) {
-          const p = parts[i];
-          const val = parseFloat(p.substring(1));
-          if (isNaN(val)) continue;
-
-          switch (p[0]) {
-            case 'X': x = isRelative ? x + val : val; hasMove = true; break;
-            case 'Y': y = isRelative ? y + val : val; hasMove = true; break;
-            case 'Z': z = isRelative ? z + val : val; hasMove = true; break;
-            case 'E': 
-              newE = isRelative ? e + val : val; 
-              break;
-          }
-        }
+    moves.forEach((move, i) => {
+      extrusionOffsets[i] = extrusionPoints.length / 3;
+      plotOffsets[i] = plotPoints.length / 3;
+      travelOffsets[i] = travelPoints.length / 3;
+      // Filament-only moves (retract / prime) have nothing to draw
+      if (move.type === 'retract') return;
+      const [points, segmentMoves] = move.type === 'travel' ? [travelPoints, travelMoves]
+        : move.type === 'extrusion' ? [extrusionPoints, extrusionMoves]
+        : [plotPoints, plotMoves];
 
-        if (hasMove) {
-          updateBounds(cx, cy, cz);
-          updateBounds(x, y, z);
-
-          // Determine Line Type
-          if (cmd === 'G0') {
-             travelPoints.push(cx, cy, cz, x, y, z);
-          } else {
-             // G1
-             if (newE > ce) {
-                 // Extrusion
-                 extrusionPoints.push(cx, cy, cz, x, y, z);
-             } else {
-                 // G1 without E increase -> Plot (XY move) or Travel?
-                 // In Plotter Mode, a G1 Z-only move is a "Pen Down" move, which is technically travel/positioning, not plotting.
-                 // We detect if this is a pure Z move.
-                 const isPureZ = Math.abs(z - cz) > 0.0001 && Math.abs(x - cx) < 0.0001 && Math.abs(y - cy) < 0.0001;
-
-                 if (isPureZ) {
-                     travelPoints.push(cx, cy, cz, x, y, z);
-                 } else {
-                     plotPoints.push(cx, cy, cz, x, y, z);
-                 }
-             }
-          }
-
-          // Update current pos
-          cx = x; cy = y; cz = z; ce = newE;
-          e = newE;
-        }
+      let { x: px, y: py, z: pz } = move.from;
+      updateBounds(px, py, pz);
+      // Arcs are drawn as short chords
+      for (const { x: nx, y: ny, z: nz } of movePoints(move)) {
+        updateBounds(nx, ny, nz);
+        points.push(px, py, pz, nx, ny, nz);
+        segmentMoves.push(i);
+        [px, py, pz] = [nx, ny, nz];
       }
-      else if (cmd === 'G28') {
-          cx = 0; cy = 0; cz = 0;
-          x=0; y=0; z=0;
-      }
-    }
+    });
+    extrusionOffsets[moves.length] = extrusionPoints.length / 3;
+    plotOffsets[moves.length] = plotPoints.length / 3;
+    travelOffsets[moves.length] = travelPoints.length / 3;
     
     const calculatedBounds = (minX !== Infinity) ? {
         min: new THREE.Vector3(minX, minY, minZ),
@@ -127,9 +260,78 @@ const GCodeVisualization: React.FC<{
         extrusionGeo: createGeo(extrusionPoints), 
         plotGeo: createGeo(plotPoints), 
         travelGeo: createGeo(travelPoints), 
+        extrusionPositions: new Float32Array(extrusionPoints),
+        segmentMoves: { extrusion: extrusionMoves, plot: plotMoves, travel: travelMoves },
+        offsets: { extrusion: extrusionOffsets, plot: plotOffsets, travel: travelOffsets },
         bounds: calculatedBounds 
     };
-  }, [gcode]);
+  }, [gcode, moves]);
+
+  // Per-vertex colors for the selected mode
+  const extrusionColors = useMemo(() => {
+    if (!segmentMoves || !extrusionGeo || !plotGeo || !travelGeo) return null;
+    const range = gradientRange(moves, colorMode, layerCount);
+    const span = range && range.max > range.min ? range.max - range.min : 1;
+    const penColors = new Map<string, THREE.Color>();
+    const defaultColor = penDisplayColor(DEFAULT_PLOT_COLOR);
+
+    const colorOf = (move: GCodeMove): THREE.Color => {
+      if (tint) return tint;
+      switch (colorMode) {
+        case 'feature':
+          return FEATURE_COLORS[featureCategory(move)];
+        case 'feedrate':
+          return move.type === 'travel' ? TRAVEL_COLOR : gradientColor((move.feedrate - range!.min) / span);
+        case 'layer':
+          return move.type === 'travel' ? TRAVEL_COLOR : gradientColor((move.layer - range!.min) / span);
+        case 'extrusionRate':
+          if (move.type === 'travel') return TRAVEL_COLOR;
+          return move.type === 'extrusion' && range ? gradientColor((extrusionRate(move) - range.min) / span) : NEUTRAL_COLOR;
+        default:
+          if (move.type === 'travel') return TRAVEL_COLOR;
+          if (move.type === 'extrusion') return EXTRUSION_COLOR;
+          // Plot lines in their pen color (green when the job has no pen markers)
+          if (!move.pen) return defaultColor;
+          if (!penColors.has(move.pen)) penColors.set(move.pen, penDisplayColor(move.pen));
+          return penColors.get(move.pen)!;
+      }
+    };
+
+    // Gradient colors are cached per move; segments of one move (arc chords) share them
+    const cache = new Map<number, THREE.Color>();
+    const colorsFor = (geo: THREE.BufferGeometry, segmentMoves: number[]) => {
+      const colors = new Float32Array(segmentMoves.length * 6);
+      segmentMoves.forEach((moveIndex, s) => {
+        let color = cache.get(moveIndex);
+        if (!color) {
+          color = colorOf(moves[moveIndex]);
+          cache.set(moveIndex, color);
+        }
+        color.toArray(colors, s * 6);
+        color.toArray(colors, s * 6 + 3);
+      });
+      geo.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+      return colors;
+    };
+
+    colorsFor(plotGeo, segmentMoves.plot);
+    colorsFor(travelGeo, segmentMoves.travel);
+    return colorsFor(extrusionGeo, segmentMoves.extrusion);
+  }, [moves, segmentMoves, extrusionGeo, plotGeo, travelGeo, colorMode, layerCount, tint]);
+
+  // Layer range and scrubber only change which part of the geometry is drawn
+  useEffect(() => {
+    if (!offsets) return;
+    const apply = (geo: THREE.BufferGeometry | null, o: MoveOffsets) => {
+      if (!geo) return;
+      const start = o[Math.min(visibleMoves.start, moves.length)];
+      const end = o[Math.max(visibleMoves.start, Math.min(visibleMoves.end, moves.length))];
+      geo.setDrawRange(start, end - start);
+    };
+    apply(extrusionGeo, offsets.extrusion);
+    apply(plotGeo, offsets.plot);
+    apply(travelGeo, offsets.travel);
+  }, [extrusionGeo, plotGeo, travelGeo, offsets, moves, visibleMoves.start, visibleMoves.end]);
 
   useEffect(() => {
      if (gcode !== previousGcode.current) {
@@ -138,28 +340,137 @@ const GCodeVisualization: React.FC<{
      }
   }, [bounds, gcode, onBoundsCalculated]);
 
+  const useTubes = renderMode === 'tubes' && extrusionPositions !== null && extrusionPositions.length / 6 <= MAX_TUBE_SEGMENTS;
+  // Tube instances are segments: two vertices each
+  const tubeRange = offsets ? {
+    start: offsets.extrusion[Math.min(visibleMoves.start, moves.length)] / 2,
+    end: offsets.extrusion[Math.max(visibleMoves.start, Math.min(visibleMoves.end, moves.length))] / 2
+  } : { start: 0, end: 0 };
+
   return (
     <>
-      {visibleTypes.extrusion && extrusionGeo && (
+      {visibleTypes.extrusion && useTubes && extrusionColors && (
+        <ExtrusionTubes positions={extrusionPositions!} colors={extrusionColors} visible={tubeRange} width={tubeWidth} height={tubeHeight} />
+      )}
+      {visibleTypes.extrusion && !useTubes && extrusionGeo && (
         <lineSegments geometry={extrusionGeo}>
-            <lineBasicMaterial color="#ef4444" linewidth={1} opacity={1} transparent={false} />
+            <lineBasicMaterial vertexColors linewidth={1} opacity={1} transparent={false} />
         </lineSegments>
       )}
       {visibleTypes.plot && plotGeo && (
         <lineSegments geometry={plotGeo}>
-             {/* Use a distinct color for Plot (e.g., Green or Teal) */}
-            <lineBasicMaterial color="#10b981" linewidth={1} opacity={1} transparent={false} />
+            <lineBasicMaterial vertexColors linewidth={1} opacity={1} transparent={false} />
         </lineSegments>
       )}
       {visibleTypes.travel && travelGeo && (
         <lineSegments geometry={travelGeo}>
-            <lineBasicMaterial color="#3b82f6" linewidth={1} opacity={0.4} transparent />
+            <lineBasicMaterial vertexColors linewidth={1} opacity={0.4} transparent />
         </lineSegments>
       )}
     </>
   );
 };
 
+// Nozzle / pen marker at the playhead, tip on the point
+const ToolHead: React.FC<{ position: { x: number; y: number; z: number } }> = ({ position }) => (
+    <mesh position={[position.x, position.y, position.z + 2]} rotation={[-Math.PI / 2, 0, 0]}>
+        <coneGeometry args={[1.2, 4, 16]} />
+        <meshStandardMaterial color="#facc15" emissive="#a16207" emissiveIntensity={0.4} />
+    </mesh>
+);
+
+// Outline of an object's footprint with a grab handle in the middle. Dragging slides the
+// outline (and through `onDrag` whatever else should follow) and reports the distance on
+// release; the owner moves the real object.
+const PlacementHandle: React.FC<{
+  footprint: { minX: number; minY: number; maxX: number; maxY: number };
+  label: string;
+  selected: boolean;
+  onSelect?: () => void;
+  onDrag?: (offset: { x: number; y: number }) => void;
+  onDrop: (dx: number, dy: number) => void;
+}> = ({ footprint, label, selected, onSelect, onDrag, onDrop }) => {
+  const controls = useThree(state => state.controls) as unknown as { enabled: boolean } | null;
+  const dragStart = useRef<THREE.Vector3 | null>(null);
+  const offset = useRef({ x: 0, y: 0 });
+  const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
+  const [hovered, setHovered] = useState(false);
+  const bed = useMemo(() => new THREE.Plane(new THREE.Vector3(0, 0, 1), 0), []);
+
+  const { minX, minY, maxX, maxY } = footprint;
+  const cx = (minX + maxX) / 2, cy = (minY + maxY) / 2;
+  const radius = Math.max(2, Math.min(10, Math.min(maxX - minX, maxY - minY) * 0.1));
+  const outline = useMemo(() => {
+    const g = new THREE.BufferGeometry();
+    g.setAttribute('position', new THREE.Float32BufferAttribute([minX, minY, 0.05, maxX, minY, 0.05, maxX, maxY, 0.05, minX, maxY, 0.05], 3));
+    return g;
+  }, [minX, minY, maxX, maxY]);
+
+  const bedPoint = (e: ThreeEvent<PointerEvent>) => e.ray.intersectPlane(bed, new THREE.Vector3());
+
+  const onPointerDown = (e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    const hit = bedPoint(e);
+    if (!hit) return;
+    (e.target as unknown as Element).setPointerCapture(e.pointerId);
+    dragStart.current = hit;
+    offset.current = { x: 0, y: 0 };
+    if (controls) controls.enabled = false;
+    onSelect?.();
+  };
+  const drag = (to: { x: number; y: number }) => {
+    offset.current = to;
+    setDragOffset(to);
+    onDrag?.(to);
+  };
+  const onPointerMove = (e: ThreeEvent<PointerEvent>) => {
+    if (!dragStart.current) return;
+    const hit = bedPoint(e);
+    if (!hit) return;
+    drag({ x: hit.x - dragStart.current.x, y: hit.y - dragStart.current.y });
+  };
+  const onPointerUp = (e: ThreeEvent<PointerEvent>) => {
+    if (!dragStart.current) return;
+    (e.target as unknown as Element).releasePointerCapture(e.pointerId);
+    dragStart.current = null;
+    if (controls) controls.enabled = true;
+    const { x, y } = offset.current;
+    if (Math.hypot(x, y) > 0.05) onDrop(x, y);
+    else drag({ x: 0, y: 0 });
+  };
+
+  // The moved job replaces this footprint; drop the drag shift with it
+  useEffect(() => setDragOffset({ x: 0, y: 0 }), [minX, minY, maxX, maxY]);
+
+  useEffect(() => {
+    document.body.style.cursor = hovered ? 'grab' : '';
+    return () => { document.body.style.cursor = ''; };
+  }, [hovered]);
+
+  const color = selected ? '#facc15' : '#94a3b8';
+  return (
+    <group position={[dragOffset.x, dragOffset.y, 0]}>
+      <lineLoop geometry={outline}>
+        <lineBasicMaterial color={color} transparent opacity={hovered || selected ? 0.9 : 0.4} />
+      </lineLoop>
+      <mesh
+        position={[cx, cy, 0.1]}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerOver={() => setHovered(true)}
+        onPointerOut={() => setHovered(false)}
+      >
+        <circleGeometry args={[radius, 32]} />
+        <meshBasicMaterial color={color} transparent opacity={hovered ? 0.6 : 0.3} depthWrite={false} />
+        <Html center position={[0, 0, 0]} className="pointer-events-none select-none">
+          {(hovered || selected) && <div className="mt-8 px-1.5 py-0.5 rounded bg-slate-900/80 text-[10px] text-slate-200 whitespace-nowrap">{label}</div>}
+        </Html>
+      </mesh>
+    </group>
+  );
+};
+
 // Component to handle initial camera setup for Z-up
 const CameraSetup: React.FC<{ cx: number, cy: number }> = ({ cx, cy }) => {
     const { camera } = useThree();
@@ -176,9 +487,102 @@ const CameraSetup: React.FC<{ cx: number, cy: number }> = ({ cx, cy }) => {
     return null;
 }
 
-const GCodeViewer: React.FC<GCodeViewerProps> = ({ gcode, bedWidth, bedDepth }) => {
+// The overlay doesn't take part in framing the view
+const ignoreBounds = () => {};
+
+const GCodeViewer: React.FC<GCodeViewerProps> = ({ gcode, bedWidth, bedDepth, nozzleDiameter, layerHeight, label, overlay, boundsProblems, onFitToBed, objects, selectedObject, onSelectObject, onMoveObject }) => {
   const [bounds, setBounds] = useState<Bounds | null>(null);
   const [visibleTypes, setVisibleTypes] = useState({ extrusion: true, plot: true, travel: true });
+  const [colorMode, setColorMode] = useState<ColorMode>('type');
+  const [renderMode, setRenderMode] = useState<RenderMode>('lines');
+
+  const parsed = useMemo(() => parseGCode(gcode), [gcode]);
+  const { moves } = parsed;
+  const lines = useMemo(() => gcode.split('\n'), [gcode]);
+  const layerCount = Math.max(1, parsed.layerHeights.length);
+  // Tubes are as tall as the job's layers (the first layer is often thicker, so use the last two)
+  const heights = parsed.layerHeights;
+  const tubeHeight = heights.length > 1 ? Math.max(0.01, heights[heights.length - 1] - heights[heights.length - 2]) : layerHeight;
+  const colorRange = useMemo(() => gradientRange(moves, colorMode, layerCount), [moves, colorMode, layerCount]);
+
+  const overlayGcode = overlay?.gcode || '';
+  const overlayParsed = useMemo(() => parseGCode(overlayGcode), [overlayGcode]);
+
+  // Layer range [first, last] and the playhead: number of moves of the whole job drawn so far
+  const [layerRange, setLayerRange] = useState<[number, number]>([0, 0]);
+  const [playhead, setPlayhead] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speedIndex, setSpeedIndex] = useState(2);
+  // Playback reads the playhead between renders
+  const playheadRef = useRef(0);
+  playheadRef.current = playhead;
+
+  // Preview shift while a lone object is being dragged, until the moved job arrives
+  // (on a plate of several only the dragged outline moves)
+  const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
+
+  // The out-of-bounds overlay can be put aside to inspect the path; a new job brings it back
+  const [boundsDismissed, setBoundsDismissed] = useState(false);
+
+  // A new job shows everything
+  useEffect(() => {
+      setBoundsDismissed(false);
+      setDragOffset({ x: 0, y: 0 });
+      setLayerRange([0, layerCount - 1]);
+      setPlayhead(moves.length);
+      setIsPlaying(false);
+  }, [moves, layerCount]);
+
+  // Layers only grow through the job, so a layer range is a contiguous range of moves
+  const firstMoveOfLayer = (layer: number) => {
+      const idx = moves.findIndex(m => m.layer >= layer);
+      return idx === -1 ? moves.length : idx;
+  };
+  const rangeStart = useMemo(() => layerRange[0] > 0 ? firstMoveOfLayer(layerRange[0]) : 0, [moves, layerRange]);
+  const rangeEnd = useMemo(() => layerRange[1] < layerCount - 1 ? firstMoveOfLayer(layerRange[1] + 1) : moves.length, [moves, layerRange, layerCount]);
+  const head = Math.max(rangeStart, Math.min(playhead, rangeEnd));
+  const currentMove = head > rangeStart ? moves[head - 1] : null;
+  const isScrubbing = isPlaying || head < rangeEnd;
+
+  // Playback: advance the playhead at the chosen speed until the end of the layer range
+  useEffect(() => {
+      if (!isPlaying) return;
+      let frame = 0;
+      let last = performance.now();
+      let carry = 0;
+      const tick = (now: number) => {
+          carry += (now - last) / 1000 * PLAYBACK_SPEEDS[speedIndex];
+          last = now;
+          const steps = Math.floor(carry);
+          carry -= steps;
+          const next = Math.min(Math.max(playheadRef.current, rangeStart) + steps, rangeEnd);
+          playheadRef.current = next;
+          setPlayhead(next);
+          if (next >= rangeEnd) setIsPlaying(false);
+          else frame = requestAnimationFrame(tick);
+      };
+      frame = requestAnimationFrame(tick);
+      return () => cancelAnimationFrame(frame);
+  }, [isPlaying, speedIndex, rangeStart, rangeEnd]);
+
+  const togglePlay = () => {
+      // Playing from the end starts over at the beginning of the range
+      if (!isPlaying && head >= rangeEnd) setPlayhead(rangeStart);
+      setIsPlaying(p => !p);
+  };
+
+  const setLayer = (which: 0 | 1, value: number) => {
+      const range: [number, number] = [...layerRange];
+      range[which] = value;
+      if (range[0] > range[1]) range[1 - which] = value;
+      setLayerRange(range);
+      setPlayhead(moves.length);
+  };
+
+  const penColors = useMemo(() => {
+      const found = gcode.match(new RegExp(PEN_MARKER.source, 'gi')) || [];
+      return Array.from(new Set(found.map(m => m.slice(4).toLowerCase())));
+  }, [gcode]);
 
   const bedCenterX = bedWidth / 2;
   const bedCenterY = bedDepth / 2;
@@ -195,7 +599,48 @@ const GCodeViewer: React.FC<GCodeViewerProps> = ({ gcode, bedWidth, bedDepth })
         <pointLight position={[bedWidth, bedDepth, 200]} intensity={0.8} />
         <pointLight position={[0, 0, 200]} intensity={0.5} />
         
-        <GCodeVisualization gcode={gcode} onBoundsCalculated={setBounds} visibleTypes={visibleTypes} />
+        {/* The job itself; a lone object's job follows its placement handle while being dragged */}
+        <group position={[dragOffset.x, dragOffset.y, 0]}>
+            <GCodeVisualization
+                gcode={gcode}
+                moves={moves}
+                layerCount={layerCount}
+                visibleMoves={{ start: rangeStart, end: head }}
+                onBoundsCalculated={setBounds}
+                visibleTypes={visibleTypes}
+                colorMode={colorMode}
+                renderMode={renderMode}
+                tubeWidth={nozzleDiameter}
+                tubeHeight={tubeHeight}
+            />
+            {isScrubbing && currentMove && <ToolHead position={currentMove.to} />}
+        </group>
+        {onMoveObject && objects && !isScrubbing && objects.map(object => (
+            <PlacementHandle
+                key={object.id}
+                footprint={object.footprint}
+                label={object.label}
+                selected={objects.length > 1 && object.id === selectedObject}
+                onSelect={onSelectObject ? () => onSelectObject(object.id) : undefined}
+                onDrag={objects.length === 1 ? setDragOffset : undefined}
+                onDrop={(dx, dy) => onMoveObject(object.id, dx, dy)}
+            />
+        ))}
+        {overlay && (
+            <GCodeVisualization
+                gcode={overlayGcode}
+                moves={overlayParsed.moves}
+                layerCount={Math.max(1, overlayParsed.layerHeights.length)}
+                visibleMoves={{ start: 0, end: overlayParsed.moves.length }}
+                onBoundsCalculated={ignoreBounds}
+                visibleTypes={visibleTypes}
+                colorMode={colorMode}
+                renderMode="lines"
+                tubeWidth={nozzleDiameter}
+                tubeHeight={tubeHeight}
+                tint={OVERLAY_COLOR}
+            />
+        )}
         
         {/* Bed Visualization */}
         <group position={[bedCenterX, bedCenterY, 0]}>
@@ -225,6 +670,44 @@ const GCodeViewer: React.FC<GCodeViewerProps> = ({ gcode, bedWidth, bedDepth })
       
       {/* HUD: Legend & Toggles */}
       <div className="absolute top-4 right-4 pointer-events-auto flex flex-col gap-2">
+          <div className="flex flex-col gap-2 bg-slate-900/90 p-3 rounded text-xs text-white backdrop-blur border border-slate-700/50 shadow-lg">
+              <div className="font-semibold border-b border-slate-700 pb-1 mb-1 text-slate-400 uppercase tracking-wider text-[10px]">Display</div>
+              <div className="flex rounded overflow-hidden border border-slate-700">
+                  {(['lines', 'tubes'] as RenderMode[]).map(mode => (
+                      <button
+                          key={mode}
+                          onClick={() => setRenderMode(mode)}
+                          className={`flex-1 px-2 py-1 capitalize transition-colors ${renderMode === mode ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-slate-800'}`}
+                          title={mode === 'tubes' ? 'Extrusion as nozzle-wide, layer-tall beads (large jobs fall back to lines)' : 'Fast 1px lines'}
+                      >
+                          {mode}
+                      </button>
+                  ))}
+              </div>
+              <select value={colorMode} onChange={(e) => setColorMode(e.target.value as ColorMode)} className="bg-slate-800 border border-slate-700 rounded text-xs text-white px-2 py-1 focus:outline-none cursor-pointer">
+                  {COLOR_MODES.map(mode => <option key={mode.id} value={mode.id}>Color: {mode.label}</option>)}
+              </select>
+              {colorMode === 'feature' && (
+                  <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-[10px] text-slate-300">
+                      {(Object.keys(FEATURE_COLORS) as FeatureCategory[]).map(category => (
+                          <div key={category} className="flex items-center gap-1 capitalize">
+                              <span className="w-2 h-2 rounded-sm" style={{ backgroundColor: '#' + FEATURE_COLORS[category].getHexString() }}></span>
+                              {category === 'solid' ? 'Solid infill' : category}
+                          </div>
+                      ))}
+                  </div>
+              )}
+              {colorRange && (
+                  <div className="flex flex-col gap-1 text-[10px] text-slate-400 font-mono">
+                      <div className="h-2 rounded" style={{ background: `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1].map(t => '#' + gradientColor(t).getHexString()).join(', ')})` }}></div>
+                      <div className="flex justify-between">
+                          <span>{colorMode === 'layer' ? colorRange.min + 1 : colorRange.min.toFixed(colorMode === 'extrusionRate' ? 2 : 0)}</span>
+                          <span>{colorMode === 'feedrate' ? 'mm/min' : colorMode === 'extrusionRate' ? 'mm/s filament' : 'layer'}</span>
+                          <span>{colorMode === 'layer' ? colorRange.max + 1 : colorRange.max.toFixed(colorMode === 'extrusionRate' ? 2 : 0)}</span>
+                      </div>
+                  </div>
+              )}
+          </div>
           <div className="flex flex-col gap-2 bg-slate-900/90 p-3 rounded text-xs text-white backdrop-blur border border-slate-700/50 shadow-lg">
               <div className="font-semibold border-b border-slate-700 pb-1 mb-1 text-slate-400 uppercase tracking-wider text-[10px]">Visibility</div>
               
@@ -243,6 +726,13 @@ const GCodeViewer: React.FC<GCodeViewerProps> = ({ gcode, bedWidth, bedDepth })
                   </div>
                   {visibleTypes.plot ? <Eye className="w-3 h-3 text-slate-400" /> : <EyeOff className="w-3 h-3 text-slate-600" />}
               </button>
+              {penColors.length > 0 && (
+                  <div className="flex flex-wrap gap-1 pl-6">
+                      {penColors.map((color, i) => (
+                          <span key={color} className="w-3 h-3 rounded-sm border border-slate-600" style={{ backgroundColor: color }} title={`Pen ${i + 1}: ${color}`}></span>
+                      ))}
+                  </div>
+              )}
 
               <button onClick={() => toggle('travel')} className="flex items-center justify-between gap-3 hover:bg-slate-800 p-1 rounded transition-colors group/btn">
                   <div className="flex items-center gap-2">
@@ -276,9 +766,109 @@ const GCodeViewer: React.FC<GCodeViewerProps> = ({ gcode, bedWidth, bedDepth })
              ) : (
                  <div className="text-slate-500 italic">No model loaded</div>
              )}
+             {label && (
+                 <div className="flex flex-col gap-1 mt-1 pt-1 border-t border-slate-700">
+                     <div className="flex items-center gap-2 truncate">
+                         {overlay && <span className="w-2 h-2 rounded-sm bg-red-500 shrink-0" title="Drawn with the color mode"></span>}
+                         <span className="truncate text-white">{label}</span>
+                     </div>
+                     {overlay && (
+                         <div className="flex items-center gap-2 truncate">
+                             <span className="w-2 h-2 rounded-sm shrink-0" style={{ backgroundColor: '#' + OVERLAY_COLOR.getHexString() }}></span>
+                             <span className="truncate text-white">{overlay.label}</span>
+                         </div>
+                     )}
+                 </div>
+             )}
           </div>
       </div>
 
+      {/* HUD: G-code around the playhead */}
+      {isScrubbing && currentMove && (
+          <div className="absolute right-4 bottom-28 w-72 pointer-events-none bg-slate-900/90 rounded border border-slate-700/50 backdrop-blur font-mono text-[10px] overflow-hidden">
+              {lines.slice(Math.max(0, currentMove.line - 1 - LINE_CONTEXT), currentMove.line + LINE_CONTEXT).map((text, i) => {
+                  const lineNo = Math.max(0, currentMove.line - 1 - LINE_CONTEXT) + i + 1;
+                  const isCurrent = lineNo === currentMove.line;
+                  return (
+                      <div key={lineNo} className={`flex gap-2 px-2 whitespace-pre ${isCurrent ? 'bg-yellow-500/20 text-yellow-200' : 'text-slate-400'}`}>
+                          <span className="w-10 text-right text-slate-600 shrink-0">{lineNo}</span>
+                          <span className="truncate">{text}</span>
+                      </div>
+                  );
+              })}
+          </div>
+      )}
+
+      {/* HUD: Layer range and playback */}
+      {moves.length > 0 && (
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2 w-[min(640px,70%)] pointer-events-auto bg-slate-900/90 p-3 rounded text-xs text-slate-300 backdrop-blur border border-slate-700/50 shadow-lg flex flex-col gap-2">
+              {layerCount > 1 && (
+                  <div className="flex items-center gap-3">
+                      <span className="w-20 shrink-0 text-slate-400">Layers {layerRange[0] + 1}–{layerRange[1] + 1}</span>
+                      <div className="flex-1 flex flex-col gap-1">
+                          <input type="range" min={0} max={layerCount - 1} value={layerRange[0]} onChange={(e) => setLayer(0, Number(e.target.value))} className="w-full accent-blue-500" title="First layer" />
+                          <input type="range" min={0} max={layerCount - 1} value={layerRange[1]} onChange={(e) => setLayer(1, Number(e.target.value))} className="w-full accent-blue-500" title="Last layer" />
+                      </div>
+                      <span className="w-20 shrink-0 text-right font-mono text-slate-500">Z {parsed.layerHeights[layerRange[1]]?.toFixed(2) ?? '-'}</span>
+                  </div>
+              )}
+              <div className="flex items-center gap-3">
+                  <button onClick={togglePlay} className="p-1 rounded hover:bg-slate-800 text-white" title={isPlaying ? 'Pause' : 'Play'}>
+                      {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                  </button>
+                  <input
+                      type="range"
+                      min={rangeStart}
+                      max={rangeEnd}
+                      value={head}
+                      onChange={(e) => { setIsPlaying(false); setPlayhead(Number(e.target.value)); }}
+                      className="flex-1 accent-yellow-500"
+                  />
+                  <span className="w-28 shrink-0 text-right font-mono text-slate-500">{head - rangeStart}/{rangeEnd - rangeStart}</span>
+                  <select value={speedIndex} onChange={(e) => setSpeedIndex(Number(e.target.value))} className="bg-slate-800 border border-slate-700 rounded text-[10px] text-white px-1 py-0.5 focus:outline-none">
+                      {PLAYBACK_SPEEDS.map((speed, i) => <option key={speed} value={i}>{speed}/s</option>)}
+                  </select>
+              </div>
+              {currentMove && isScrubbing && (
+                  <div className="text-[10px] text-slate-500 font-mono">
+                      Line {currentMove.line} • {currentMove.type}{currentMove.feature ? ` (${currentMove.feature})` : ''} • F{Math.round(currentMove.feedrate)} • X{currentMove.to.x.toFixed(2)} Y{currentMove.to.y.toFixed(2)} Z{currentMove.to.z.toFixed(2)}
+                  </div>
+              )}
+          </div>
+      )}
+
+       {/* Out of bounds: blocks the preview until fixed or put aside */}
+       {boundsProblems && boundsProblems.length > 0 && !boundsDismissed && (
+           <div className="absolute inset-0 z-10 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm pointer-events-auto">
+               <div className="max-w-md bg-slate-900 border border-red-500/50 rounded-lg p-5 shadow-2xl flex flex-col gap-3">
+                   <div className="flex items-center gap-2 text-red-400 font-semibold">
+                       <AlertTriangle className="w-5 h-5" />
+                       Toolpath leaves the machine
+                   </div>
+                   <ul className="text-xs text-slate-300 list-disc pl-5 space-y-1">
+                       {boundsProblems.map(problem => <li key={problem}>{problem}</li>)}
+                   </ul>
+                   <p className="text-[11px] text-slate-500">Sending this job would drive the axes into their end stops. Download is disabled until it fits.</p>
+                   <div className="flex gap-2 justify-end">
+                       <button onClick={() => setBoundsDismissed(true)} className="px-3 py-1.5 rounded text-xs text-slate-300 hover:bg-slate-800">
+                           Inspect path
+                       </button>
+                       {onFitToBed && (
+                           <button onClick={onFitToBed} className="px-3 py-1.5 rounded text-xs font-medium bg-blue-600 hover:bg-blue-500 text-white">
+                               Fit to bed with margin
+                           </button>
+                       )}
+                   </div>
+               </div>
+           </div>
+       )}
+       {boundsProblems && boundsProblems.length > 0 && boundsDismissed && (
+           <button onClick={() => setBoundsDismissed(false)} className="absolute top-4 left-1/2 -translate-x-1/2 z-10 flex items-center gap-2 px-3 py-1.5 rounded bg-red-600/90 text-white text-xs shadow-lg">
+               <AlertTriangle className="w-3 h-3" />
+               Out of bounds
+           </button>
+       )}
+
        {/* HUD: Bed Size Indicator (Bottom Left) */}
        <div className="absolute bottom-4 left-4 pointer-events-none text-[10px] text-slate-600 font-mono">
             Bed: {bedWidth}x{bedDepth}mm
@@ -0,0 +1,169 @@
+import { BedCheck, ModelSettings, PlateObject, Point3, PrinterSettings } from '../types';
+import { parseGCode, movePoints } from './gcodeParser';
+import { placementPivot } from '../utils/placement';
+
+// Rounding in the emitted coordinates (3 decimals) must not count as leaving the bed
+const BOUNDS_EPSILON = 0.001;
+
+type Box = { min: Point3; max: Point3 };
+
+const grow = (box: Box | null, p: Point3): Box => {
+  if (!box) return { min: { ...p }, max: { ...p } };
+  box.min.x = Math.min(box.min.x, p.x); box.max.x = Math.max(box.max.x, p.x);
+  box.min.y = Math.min(box.min.y, p.y); box.max.y = Math.max(box.max.y, p.y);
+  box.min.z = Math.min(box.min.z, p.z); box.max.z = Math.max(box.max.z, p.z);
+  return box;
+};
+
+// Walk a G-code program and check it stays on the bed (0..bedWidth × 0..bedDepth) and
+// below the machine's max height
+export const checkBedBounds = (gcode: string, printerSettings: PrinterSettings): BedCheck => {
+  const { moves } = parseGCode(gcode, { dwellInSeconds: printerSettings.gcodeFlavor === 'grbl' });
+  let bounds: Box | null = null;
+  let drawBounds: Box | null = null;
+
+  for (const move of moves) {
+    if (move.type === 'retract') continue;
+    const isDraw = move.type === 'extrusion' || move.type === 'plot';
+    // Arcs can bulge past both of their end points
+    for (const p of [move.from, ...movePoints(move)]) {
+      bounds = grow(bounds, p);
+      if (isDraw) drawBounds = grow(drawBounds, p);
+    }
+  }
+
+  const problems: string[] = [];
+  const { bedWidth, bedDepth, maxHeight } = printerSettings;
+  if (bounds) {
+    if (bounds.min.x < -BOUNDS_EPSILON) problems.push(`X goes to ${bounds.min.x.toFixed(1)} mm, left of the bed`);
+    if (bounds.max.x > bedWidth + BOUNDS_EPSILON) problems.push(`X goes to ${bounds.max.x.toFixed(1)} mm, past the ${bedWidth} mm bed width`);
+    if (bounds.min.y < -BOUNDS_EPSILON) problems.push(`Y goes to ${bounds.min.y.toFixed(1)} mm, in front of the bed`);
+    if (bounds.max.y > bedDepth + BOUNDS_EPSILON) problems.push(`Y goes to ${bounds.max.y.toFixed(1)} mm, past the ${bedDepth} mm bed depth`);
+  }
+  if (drawBounds && drawBounds.max.z > maxHeight + BOUNDS_EPSILON) {
+    problems.push(`Prints up to Z ${drawBounds.max.z.toFixed(2)} mm, above the ${maxHeight} mm max height`);
+  } else if (bounds && bounds.max.z > maxHeight + BOUNDS_EPSILON) {
+    // Travels count too: Z-hops and the end-of-job lift run into the end stop just the same
+    problems.push(`Moves up to Z ${bounds.max.z.toFixed(2)} mm, above the ${maxHeight} mm max height`);
+  }
+
+  return { bounds, drawBounds, problems };
+};
+
+// Bed area a fitted drawing may use: `bedMargin` in from the edges. The laser's overscan
+// doesn't scale and is kept free on both sides of X.
+const fitArea = (printerSettings: PrinterSettings, modelSettings: ModelSettings) => {
+  const margin = Math.max(0, printerSettings.bedMargin);
+  const overscan = modelSettings.isPlotterMode && modelSettings.isLaserMode ? Math.max(0, modelSettings.laserOverscan) : 0;
+  return {
+    minX: margin + overscan, maxX: printerSettings.bedWidth - margin - overscan,
+    minY: margin, maxY: printerSettings.bedDepth - margin
+  };
+};
+
+// Largest factor the drawing can be scaled by, about `pivot`, and stay inside the fit area
+const fitFactor = (
+  box: Box,
+  pivot: { x: number; y: number },
+  printerSettings: PrinterSettings,
+  modelSettings: ModelSettings
+): number | null => {
+  const area = fitArea(printerSettings, modelSettings);
+
+  // Largest factor that keeps [min, max] (scaled about `center`) inside [low, high]
+  const axisFactor = (min: number, max: number, center: number, low: number, high: number): number => {
+    if (center < low || center > high) return 0;
+    let factor = Infinity;
+    if (min < center) factor = Math.min(factor, (center - low) / (center - min));
+    if (max > center) factor = Math.min(factor, (high - center) / (max - center));
+    return factor;
+  };
+  const factor = Math.min(
+    axisFactor(box.min.x, box.max.x, pivot.x, area.minX, area.maxX),
+    axisFactor(box.min.y, box.max.y, pivot.y, area.minY, area.maxY)
+  );
+  return factor > 0 && isFinite(factor) ? factor : null;
+};
+
+const fitObject = (
+  modelSettings: ModelSettings,
+  factor: number,
+  printerSettings: PrinterSettings
+): Pick<ModelSettings, 'scale' | 'targetHeight'> => {
+  // Round down so the rounded scale still fits
+  const scale = Math.floor(modelSettings.scale * factor * 1000) / 1000;
+  const targetHeight = modelSettings.isPlotterMode
+    ? modelSettings.targetHeight
+    : Math.min(modelSettings.targetHeight, Math.max(0, printerSettings.maxHeight - printerSettings.zOffset));
+  return { scale, targetHeight };
+};
+
+// Largest scale (and, for 3D, height) that keeps the drawing `bedMargin` away from the bed
+// edges. Scaling moves every point towards or away from the placement pivot (bed center or
+// the anchored corner, plus offset), so each edge of the drawing scales about it exactly.
+// A pivot outside the fit area (a corner anchor sits on the bed edge) is first moved into it
+// through the offset, which shifts the whole drawing with it.
+// Null when no scale fits, e.g. a margin wider than half the bed.
+export const fitToBed = (
+  check: BedCheck,
+  printerSettings: PrinterSettings,
+  modelSettings: ModelSettings
+): Pick<ModelSettings, 'scale' | 'targetHeight' | 'offsetX' | 'offsetY'> | null => {
+  const box = check.drawBounds;
+  if (!box) return null;
+  const area = fitArea(printerSettings, modelSettings);
+  if (area.minX > area.maxX || area.minY > area.maxY) return null;
+
+  const pivot = placementPivot(modelSettings, printerSettings);
+  const clamp = (v: number, low: number, high: number) => Math.min(high, Math.max(low, v));
+  const dx = clamp(pivot.x, area.minX, area.maxX) - pivot.x;
+  const dy = clamp(pivot.y, area.minY, area.maxY) - pivot.y;
+  const moved: Box = {
+    min: { x: box.min.x + dx, y: box.min.y + dy, z: box.min.z },
+    max: { x: box.max.x + dx, y: box.max.y + dy, z: box.max.z }
+  };
+  const factor = fitFactor(moved, { x: pivot.x + dx, y: pivot.y + dy }, printerSettings, modelSettings);
+  if (factor === null) return null;
+
+  const round = (v: number) => Math.round(v * 100) / 100;
+  return {
+    ...fitObject(modelSettings, factor, printerSettings),
+    offsetX: round((modelSettings.offsetX || 0) + dx),
+    offsetY: round((modelSettings.offsetY || 0) + dy)
+  };
+};
+
+// Fit a whole plate: the layout scales about the bed center, so every object is scaled by the
+// same factor and its pivot slides along the line from the bed center. A lone object fits
+// about its own pivot like `fitToBed`.
+export const fitPlateToBed = (
+  check: BedCheck,
+  printerSettings: PrinterSettings,
+  objects: PlateObject[]
+): PlateObject[] | null => {
+  if (!check.drawBounds || objects.length === 0) return null;
+  if (objects.length === 1) {
+    const fit = fitToBed(check, printerSettings, objects[0].settings);
+    return fit && [{ ...objects[0], settings: { ...objects[0].settings, ...fit } }];
+  }
+
+  const center = { x: printerSettings.bedWidth / 2, y: printerSettings.bedDepth / 2 };
+  const factor = fitFactor(check.drawBounds, center, printerSettings, objects[0].settings);
+  if (factor === null) return null;
+  const round = (v: number) => Math.round(v * 100) / 100;
+  return objects.map(o => {
+    const fit = fitObject(o.settings, factor, printerSettings);
+    // Where the pivot ends up, less the anchor part of it, is the new offset
+    const pivot = placementPivot(o.settings, printerSettings);
+    const scaled = o.settings.scale > 0 ? fit.scale / o.settings.scale : factor;
+    return {
+      ...o,
+      settings: {
+        ...o.settings,
+        ...fit,
+        offsetX: round(o.settings.offsetX + (center.x + scaled * (pivot.x - center.x) - pivot.x)),
+        offsetY: round(o.settings.offsetY + (center.y + scaled * (pivot.y - center.y) - pivot.y))
+      }
+    };
+  });
+};
@@ -0,0 +1,136 @@
+import { PrinterSettings, GCodeEstimate } from '../types';
+import { parseGCode, moveLength } from './gcodeParser';
+import { GCodeFlavor } from './gcodeFlavors';
+
+// Speed (mm/s) the planner may always start/stop/turn at, like Marlin's minimum planner speed
+const MIN_JUNCTION_SPEED = 0.05;
+
+// One straight (or arc) move at a constant nominal speed. `dir` is the unit direction at the
+// start and end of the move (arcs use their chord), null for moves that can't share a junction.
+interface Block {
+  length: number;
+  speed: number; // mm/s
+  dir: { x: number; y: number; z: number } | null;
+  stopBefore: boolean; // Machine is standing still before this move (dwell, pause, first move)
+}
+
+// Max speed through the corner between two moves, from the junction deviation model:
+// the corner is rounded with a circle that strays `junctionDeviation` from it.
+const junctionSpeed = (a: Block, b: Block, printerSettings: PrinterSettings): number => {
+  if (!a.dir || !b.dir || b.stopBefore) return 0;
+  const cosTheta = -(a.dir.x * b.dir.x + a.dir.y * b.dir.y + a.dir.z * b.dir.z);
+  let v: number;
+  if (cosTheta > 0.999999) {
+    v = MIN_JUNCTION_SPEED; // Full reversal
+  } else if (cosTheta < -0.999999) {
+    v = Infinity; // Straight on
+  } else {
+    const sinHalf = Math.sqrt((1 - cosTheta) / 2);
+    v = Math.sqrt(printerSettings.acceleration * printerSettings.junctionDeviation * sinHalf / (1 - sinHalf));
+  }
+  return Math.min(v, a.speed, b.speed);
+};
+
+// Trapezoid time for a move entered at `vIn` and left at `vOut`
+const blockTime = (block: Block, vIn: number, vOut: number, accel: number): number => {
+  const { length, speed } = block;
+  if (length <= 0 || speed <= 0) return 0;
+  // Highest speed reachable between accelerating from vIn and decelerating to vOut
+  const vPeak = Math.min(speed, Math.sqrt((2 * accel * length + vIn * vIn + vOut * vOut) / 2));
+  const accelDist = Math.max(0, (vPeak * vPeak - vIn * vIn) / (2 * accel));
+  const decelDist = Math.max(0, (vPeak * vPeak - vOut * vOut) / (2 * accel));
+  const cruiseDist = Math.max(0, length - accelDist - decelDist);
+  return (vPeak - vIn) / accel + (vPeak - vOut) / accel + cruiseDist / vPeak;
+};
+
+// Time for a run of moves, with entry speeds limited by the junctions and by how fast the
+// machine can speed up / slow down over each move (the same forward/backward passes a planner does)
+const planTime = (blocks: Block[], printerSettings: PrinterSettings): number => {
+  const accel = Math.max(1, printerSettings.acceleration);
+  const n = blocks.length;
+  const entry = new Float64Array(n + 1); // entry[n] is the final stop
+  for (let i = 1; i < n; i++) entry[i] = junctionSpeed(blocks[i - 1], blocks[i], printerSettings);
+
+  for (let i = n - 1; i >= 0; i--) {
+    entry[i] = Math.min(entry[i], Math.sqrt(entry[i + 1] * entry[i + 1] + 2 * accel * blocks[i].length));
+  }
+  for (let i = 0; i < n; i++) {
+    entry[i + 1] = Math.min(entry[i + 1], Math.sqrt(entry[i] * entry[i] + 2 * accel * blocks[i].length));
+  }
+
+  let time = 0;
+  for (let i = 0; i < n; i++) time += blockTime(blocks[i], entry[i], entry[i + 1], accel);
+  return time;
+};
+
+// Walk a G-code program and estimate how long it runs and what it uses. Drawing is any
+// extruding, plotting or burning move; everything else that moves is travel.
+// Dwells count towards the time; operator pauses (M0, M600...) don't.
+export const estimateGCode = (gcode: string, printerSettings: PrinterSettings): GCodeEstimate => {
+  const { moves, dwellTime } = parseGCode(gcode, { dwellInSeconds: printerSettings.gcodeFlavor === 'grbl' });
+  const blocks: Block[] = [];
+  let filamentLength = 0;
+  let drawDistance = 0;
+  let travelDistance = 0;
+  let penLifts = 0;
+  let drawing = false;
+  let feedrate = printerSettings.travelSpeed;
+
+  for (const move of moves) {
+    const length = moveLength(move);
+    const isDraw = move.type === 'extrusion' || move.type === 'plot';
+    filamentLength += move.extrusion;
+    if (isDraw) drawDistance += length;
+    else travelDistance += length;
+
+    // Every stroke starts with the pen going down; Z-only moves don't end one
+    const movesXY = move.arc !== null || move.to.x !== move.from.x || move.to.y !== move.from.y;
+    if (move.type === 'plot' && !drawing) penLifts++;
+    if (movesXY || move.type === 'retract') drawing = move.type === 'plot';
+
+    if (move.feedrate > 0) feedrate = move.feedrate;
+    // E-only moves (retract/prime) take |E| at the feedrate
+    const blockLength = length > 0 ? length : Math.abs(move.extrusion);
+    const dx = move.to.x - move.from.x, dy = move.to.y - move.from.y, dz = move.to.z - move.from.z;
+    const chord = Math.hypot(dx, dy, dz);
+    blocks.push({
+      length: blockLength,
+      speed: feedrate / 60,
+      dir: chord > 0 ? { x: dx / chord, y: dy / chord, z: dz / chord } : null,
+      stopBefore: move.stopBefore
+    });
+  }
+
+  const filamentArea = Math.PI * Math.pow(printerSettings.filamentDiameter / 2, 2);
+  filamentLength = Math.max(0, filamentLength);
+
+  return {
+    time: planTime(blocks, printerSettings) + dwellTime,
+    filamentLength,
+    // mm³ -> cm³ -> g
+    filamentWeight: filamentLength * filamentArea / 1000 * printerSettings.filamentDensity,
+    penLifts,
+    drawDistance,
+    travelDistance
+  };
+};
+
+// Header lines slicer-aware printer UIs (OctoPrint, Marlin/Klipper screens) read for progress and
+// usage. They must start with a bare ';', so flavors without semicolon comments get plain comments.
+export const estimateHeader = (estimate: GCodeEstimate, flavor: GCodeFlavor, withFilament: boolean): string => {
+  const semicolons = flavor.comment('x').startsWith(';');
+  const line = (text: string) => semicolons ? `;${text}\n` : flavor.comment(text);
+  let out = line(`TIME:${Math.round(estimate.time)}`);
+  if (withFilament) out += line(`Filament used: ${(estimate.filamentLength / 1000).toFixed(5)}m`);
+  return out;
+};
+
+// "1h 23m", "4m 05s", "12s"
+export const formatDuration = (seconds: number): string => {
+  const s = Math.round(seconds);
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  if (h > 0) return `${h}h ${m.toString().padStart(2, '0')}m`;
+  if (m > 0) return `${m}m ${(s % 60).toString().padStart(2, '0')}s`;
+  return `${s}s`;
+};
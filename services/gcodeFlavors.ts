@@ -0,0 +1,136 @@
+import { GCodeFlavorId, PenChangeCommand } from '../types';
+
+// Firmware-specific pieces of the output. Generators only emit motion; everything that
+// differs between firmwares (heating, homing, extrusion mode, comments, program end) goes through here.
+export interface GCodeFlavor {
+  label: string;
+  supportsHeating: boolean;
+  supportsExtrusion: boolean;
+  comment: (text: string) => string;
+  heatAndWait: (nozzleTemp: number, bedTemp: number) => string;
+  coolDown: () => string;
+  home: () => string;
+  homeZ: () => string;
+  // Stop and wait for the operator, showing `message` where the firmware can
+  pause: (message: string, command: PenChangeCommand) => string;
+  extrusionMode: (relative: boolean) => string;
+  dwell: (ms: number) => string;
+  programEnd: () => string;
+}
+
+const semicolonComment = (text: string) => `; ${text}\n`;
+
+const marlin: GCodeFlavor = {
+  label: 'Marlin',
+  supportsHeating: true,
+  supportsExtrusion: true,
+  comment: semicolonComment,
+  heatAndWait: (nozzleTemp, bedTemp) =>
+    `M104 S${nozzleTemp}\nM140 S${bedTemp}\nM109 S${nozzleTemp}\nM190 S${bedTemp}\n`,
+  coolDown: () => `M104 S0\nM140 S0\n`,
+  home: () => `G28\n`,
+  homeZ: () => `G28 Z\n`,
+  pause: (message, command) => command === 'M600' ? `M117 ${message}\nM600\n` : `M0 ${message}\n`,
+  extrusionMode: (relative) => relative ? `M83\n` : `M82\nG92 E0\n`,
+  dwell: (ms) => `G4 P${Math.round(ms)}\n`,
+  programEnd: () => `M84\n`,
+};
+
+const klipper: GCodeFlavor = {
+  label: 'Klipper',
+  supportsHeating: true,
+  supportsExtrusion: true,
+  comment: semicolonComment,
+  // Start both heaters first, then wait on each, so the bed and nozzle heat in parallel
+  heatAndWait: (nozzleTemp, bedTemp) =>
+    `SET_HEATER_TEMPERATURE HEATER=heater_bed TARGET=${bedTemp}\n` +
+    `SET_HEATER_TEMPERATURE HEATER=extruder TARGET=${nozzleTemp}\n` +
+    `TEMPERATURE_WAIT SENSOR=heater_bed MINIMUM=${bedTemp}\n` +
+    `TEMPERATURE_WAIT SENSOR=extruder MINIMUM=${nozzleTemp}\n`,
+  coolDown: () => `TURN_OFF_HEATERS\n`,
+  home: () => `G28\n`,
+  homeZ: () => `G28 Z\n`,
+  // Klipper has no M0; PAUSE is the standard macro (M600 only works if the config defines it)
+  pause: (message, command) => `M117 ${message}\n${command === 'M600' ? 'M600' : 'PAUSE'}\n`,
+  extrusionMode: (relative) => relative ? `M83\n` : `M82\nG92 E0\n`,
+  dwell: (ms) => `G4 P${Math.round(ms)}\n`,
+  programEnd: () => `M84\n`,
+};
+
+const reprap: GCodeFlavor = {
+  label: 'RepRapFirmware',
+  supportsHeating: true,
+  supportsExtrusion: true,
+  comment: semicolonComment,
+  // Tool temperatures are set with G10; M116 waits for every heater to reach its target
+  heatAndWait: (nozzleTemp, bedTemp) => `M140 S${bedTemp}\nG10 P0 S${nozzleTemp}\nT0\nM116\n`,
+  coolDown: () => `G10 P0 S0\nM140 S0\n`,
+  home: () => `G28\n`,
+  homeZ: () => `G28 Z\n`,
+  // M0 ends the job on RRF, so M0 becomes a blocking message box instead
+  pause: (message, command) => command === 'M600' ? `M117 "${message}"\nM600\n` : `M291 P"${message}" S2\n`,
+  extrusionMode: (relative) => relative ? `M83\n` : `M82\nG92 E0\n`,
+  dwell: (ms) => `G4 P${Math.round(ms)}\n`,
+  programEnd: () => `M84\n`,
+};
+
+const grbl: GCodeFlavor = {
+  label: 'GRBL',
+  supportsHeating: false,
+  supportsExtrusion: false,
+  // GRBL comments are parenthesised and cannot nest
+  comment: (text) => `(${text.replace(/[()]/g, '')})\n`,
+  heatAndWait: () => '',
+  coolDown: () => '',
+  home: () => `$H\n`,
+  homeZ: () => `$HZ\n`,
+  // No messages and no M600: leave a comment for the sender and stop with M0
+  pause: (message) => `(${message.replace(/[()]/g, '')})\nM0\n`,
+  extrusionMode: () => '',
+  // GRBL's G4 P is in seconds, not milliseconds
+  dwell: (ms) => `G4 P${(ms / 1000).toFixed(3)}\n`,
+  programEnd: () => `M2\n`,
+};
+
+export const GCODE_FLAVORS: Record<GCodeFlavorId, GCodeFlavor> = { marlin, klipper, reprap, grbl };
+
+export const getFlavor = (id: GCodeFlavorId): GCodeFlavor => GCODE_FLAVORS[id] || marlin;
+
+// Common start: absolute XY in mm, optional heat-up, homing and extrusion mode
+export const startSequence = (
+  flavor: GCodeFlavor,
+  options: { heat?: { nozzleTemp: number; bedTemp: number }; relativeExtrusion?: boolean }
+): string => {
+  let out = '';
+  if (options.heat && flavor.supportsHeating) {
+    out += flavor.heatAndWait(options.heat.nozzleTemp, options.heat.bedTemp);
+  }
+  out += `G90\nG21\n`;
+  out += flavor.home();
+  if (options.relativeExtrusion !== undefined && flavor.supportsExtrusion) {
+    out += flavor.extrusionMode(options.relativeExtrusion);
+  }
+  return out;
+};
+
+// Common end: heaters off, lift 10mm (unless the machine has no usable Z, like a laser),
+// park at the back of the bed and release the machine. Given the Z the job ends at and the
+// machine's max height, the lift goes to an absolute Z that stops at the max height.
+export const endSequence = (
+  flavor: GCodeFlavor,
+  options: { heated: boolean; bedDepth: number; travelSpeed: number; lift?: boolean; fromZ?: number; maxHeight?: number }
+): string => {
+  let out = '';
+  if (options.heated && flavor.supportsHeating) out += flavor.coolDown();
+  if (options.lift !== false) {
+    if (options.fromZ !== undefined && options.maxHeight !== undefined) {
+      const liftTo = Math.min(options.fromZ + 10, options.maxHeight);
+      if (liftTo > options.fromZ) out += `G0 Z${liftTo.toFixed(3)} F${options.travelSpeed}\n`;
+    } else {
+      out += `G91\nG0 Z10 F${options.travelSpeed}\nG90\n`;
+    }
+  }
+  out += `G0 X0 Y${options.bedDepth} F${options.travelSpeed}\n`;
+  out += flavor.programEnd();
+  return out;
+};
@@ -0,0 +1,251 @@
+import { GCodeMove, ParsedGCode, Point, Point3 } from '../types';
+import { arcLength } from '../utils/arcFitter';
+
+// Slicer feature comments: ";TYPE:WALL-OUTER" (Cura), ";TYPE:External perimeter" (PrusaSlicer)
+const FEATURE_MARKER = /^;\s*TYPE:\s*(.+)$/i;
+// Pen colors announced by "PEN:#rrggbb" marker comments (plotter jobs from this app)
+export const PEN_MARKER = /PEN:(#[0-9a-f]{6})/i;
+
+// Moves up this far (mm) before a print move count as a new layer
+const LAYER_EPSILON = 0.0001;
+
+type MotionCommand = GCodeMove['command'];
+
+export interface ParseOptions {
+  // GRBL reads G4 P as seconds; Marlin/Klipper/RRF as milliseconds
+  dwellInSeconds?: boolean;
+}
+
+// Words on a line without its comments, line number and checksum: "G1X10 Y-2.5E.3" ->
+// [['G', 1], ['X', 10], ['Y', -2.5], ['E', 0.3]]
+const parseWords = (code: string): [string, number][] => {
+  const words: [string, number][] = [];
+  const re = /([A-Z])\s*([-+]?(?:\d+\.?\d*|\.\d+))/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(code)) !== null) words.push([m[1], parseFloat(m[2])]);
+  return words;
+};
+
+// Arc center for R-form arcs: the one on the side that gives the requested direction
+// (negative R asks for the long way round)
+const centerFromRadius = (from: Point, to: Point, r: number, clockwise: boolean): Point => {
+  const dx = to.x - from.x, dy = to.y - from.y;
+  const d = Math.hypot(dx, dy);
+  if (d < 1e-9) return { x: from.x, y: from.y };
+  const h = Math.sqrt(Math.max(0, r * r - (d / 2) * (d / 2)));
+  const side = (clockwise ? 1 : -1) * (r < 0 ? -1 : 1);
+  return { x: from.x + dx / 2 + side * h * dy / d, y: from.y + dy / 2 - side * h * dx / d };
+};
+
+// Parse a G-code program into absolute moves. Understands G90/G91, M82/M83, G92, G20/G21,
+// G2/G3 (I/J or R), modal motion (bare "X10 Y5" lines), words without spaces, GRBL's $H
+// and laser on/off (M3/M4/M5 + S). After homing (G28/$H) the homed axes are unknown until a
+// move sets them absolutely, so nothing is drawn from an assumed origin.
+export const parseGCode = (gcode: string, options: ParseOptions = {}): ParsedGCode => {
+  const moves: GCodeMove[] = [];
+  const layerHeights: number[] = [];
+  let dwellTime = 0;
+
+  const pos = { x: 0, y: 0, z: 0, e: 0 };
+  // Unknown until set: position at program start and after homing
+  const known = { x: false, y: false, z: false };
+  let absolute = true;
+  let absoluteE = true;
+  let unitScale = 1; // 25.4 after G20
+  let feedrate = 0;
+  let motion: MotionCommand | null = null;
+  let feature: string | null = null;
+  let pen: string | null = null;
+  let stopPending = true;
+  let layerZ: number | null = null;
+
+  // A file with any extruding G1 is a 3D print: its G1s without E are travel, not plot
+  const hasExtrusion = /^[ \t]*(?:N\d+\s*)?G0*1(?![0-9])[^;(\n]*E\s*\+?\d*\.?\d*[1-9]/im.test(gcode);
+  // Laser jobs: a G1 only burns while the laser is on (M3/M4) with non-zero S power
+  let isLaserJob = false, laserOn = false, laserPower = 0;
+
+  const lines = gcode.split('\n');
+  for (let index = 0; index < lines.length; index++) {
+    const raw = lines[index];
+    const penMarker = raw.match(PEN_MARKER);
+    if (penMarker) pen = penMarker[1].toLowerCase();
+    const featureMarker = raw.trim().match(FEATURE_MARKER);
+    if (featureMarker) feature = featureMarker[1].trim();
+
+    // Strip both comment styles: "; ..." (Marlin/Klipper/RRF) and "( ... )" (GRBL), then N words and checksums
+    const code = raw.split(';')[0].replace(/\([^)]*\)/g, '').replace(/\*\d+\s*$/, '').trim().toUpperCase();
+    if (!code) continue;
+
+    if (code.startsWith('$H')) {
+      known.x = known.y = known.z = false;
+      stopPending = true;
+      continue;
+    }
+
+    const words = parseWords(code).filter(([letter]) => letter !== 'N');
+    const params: Record<string, number> = {};
+    let moveCommand: MotionCommand | null = null;
+    let laserCommand = false;
+
+    for (const [letter, value] of words) {
+      if (letter === 'G' || letter === 'M') {
+        const command = letter + value;
+        switch (command) {
+          case 'G0': case 'G1': case 'G2': case 'G3':
+            moveCommand = command;
+            break;
+          case 'G20': unitScale = 25.4; break;
+          case 'G21': unitScale = 1; break;
+          case 'G90': absolute = true; absoluteE = true; break;
+          case 'G91': absolute = false; absoluteE = false; break;
+          case 'M82': absoluteE = true; break;
+          case 'M83': absoluteE = false; break;
+          case 'M3': case 'M4': isLaserJob = true; laserOn = true; laserCommand = true; break;
+          case 'M5': isLaserJob = true; laserOn = false; break;
+          case 'M0': case 'M1': case 'M25': case 'M226': case 'M291': case 'M600':
+            stopPending = true;
+            break;
+          // G4, G28 and G92 are handled once their parameters are known
+          default: params['#' + command] = 1;
+        }
+      } else {
+        params[letter] = value;
+      }
+    }
+
+    const has = (letter: string) => params[letter] !== undefined;
+
+    if (params['#G4']) {
+      dwellTime += has('S') ? params.S : (params.P || 0) * (options.dwellInSeconds ? 1 : 0.001);
+      stopPending = true;
+      continue;
+    }
+    if (params['#G28']) {
+      // Axes are named without values ("G28 Z"); bare G28 homes everything.
+      // Where the axes end up depends on the machine.
+      const named = code.replace(/G0*28/, '');
+      const all = !/[XYZ]/.test(named);
+      if (all || named.includes('X')) known.x = false;
+      if (all || named.includes('Y')) known.y = false;
+      if (all || named.includes('Z')) known.z = false;
+      stopPending = true;
+      continue;
+    }
+    if (params['#G92']) {
+      if (has('X')) { pos.x = params.X * unitScale; known.x = true; }
+      if (has('Y')) { pos.y = params.Y * unitScale; known.y = true; }
+      if (has('Z')) { pos.z = params.Z * unitScale; known.z = true; }
+      if (has('E')) pos.e = params.E * unitScale;
+      continue;
+    }
+
+    // Bare coordinates continue the last motion mode (common in CNC / GRBL files)
+    if (moveCommand) motion = moveCommand;
+    else if (motion && /^[XYZE]/.test(code)) moveCommand = motion;
+    // S is the laser power on M3/M4 and motion lines only; elsewhere it is something else
+    // (G4 S dwell seconds, M106 S fan speed)
+    if (has('S') && (laserCommand || moveCommand)) laserPower = params.S;
+    if (!moveCommand) continue;
+
+    if (has('F') && params.F > 0) feedrate = params.F * unitScale;
+
+    const axis = (letter: 'X' | 'Y' | 'Z', current: number, isKnown: boolean): [number, boolean] => {
+      if (!has(letter)) return [current, isKnown];
+      const value = params[letter] * unitScale;
+      // A relative move on an unknown axis is still unknown
+      return absolute ? [value, true] : [current + value, isKnown];
+    };
+    const [x, knownX] = axis('X', pos.x, known.x);
+    const [y, knownY] = axis('Y', pos.y, known.y);
+    const [z, knownZ] = axis('Z', pos.z, known.z);
+    // Unknown start axes are taken to already be at the target: nothing is drawn along them
+    const from: Point3 = { x: known.x ? pos.x : x, y: known.y ? pos.y : y, z: known.z ? pos.z : z };
+    const to: Point3 = { x, y, z };
+    const e = !has('E') ? pos.e : absoluteE ? params.E * unitScale : pos.e + params.E * unitScale;
+    const extrusion = e - pos.e;
+
+    pos.x = x; pos.y = y; pos.z = z; pos.e = e;
+    known.x = knownX; known.y = knownY; known.z = knownZ;
+
+    let arc: GCodeMove['arc'] = null;
+    if (moveCommand === 'G2' || moveCommand === 'G3') {
+      const clockwise = moveCommand === 'G2';
+      const center = has('R')
+        ? centerFromRadius(from, to, params.R * unitScale, clockwise)
+        : { x: from.x + (params.I || 0) * unitScale, y: from.y + (params.J || 0) * unitScale };
+      arc = { center, clockwise };
+    }
+
+    const moved = arc !== null || from.x !== to.x || from.y !== to.y || from.z !== to.z;
+    if (!moved && extrusion === 0) continue;
+
+    const movesXY = arc !== null || Math.abs(to.x - from.x) > LAYER_EPSILON || Math.abs(to.y - from.y) > LAYER_EPSILON;
+    let type: GCodeMove['type'];
+    if (!moved) {
+      type = 'retract';
+    } else if (extrusion > 0 && movesXY) {
+      type = 'extrusion';
+    } else if (moveCommand === 'G0' || !movesXY || hasExtrusion) {
+      // G0, Z-only moves (pen up/down, layer changes) and dry G1s in 3D prints
+      type = 'travel';
+    } else if (isLaserJob) {
+      type = laserOn && laserPower > 0 ? 'plot' : 'travel';
+    } else {
+      type = 'plot';
+    }
+
+    // A new layer starts when printing resumes at a different height
+    if ((type === 'extrusion' || type === 'plot') && (layerZ === null || Math.abs(to.z - layerZ) > LAYER_EPSILON)) {
+      layerZ = to.z;
+      layerHeights.push(to.z);
+    }
+
+    moves.push({
+      line: index + 1,
+      command: moveCommand,
+      type,
+      feature,
+      pen,
+      from,
+      to,
+      arc,
+      extrusion,
+      feedrate,
+      layer: Math.max(0, layerHeights.length - 1),
+      stopBefore: stopPending
+    });
+    stopPending = false;
+  }
+
+  return { moves, layerHeights, dwellTime, lineCount: lines.length };
+};
+
+// Distance the tool covers on a move, along the arc for G2/G3
+export const moveLength = (move: GCodeMove): number => {
+  const dz = move.to.z - move.from.z;
+  if (move.arc) return Math.hypot(arcLength(move.from, move.to, move.arc.center, move.arc.clockwise), dz);
+  return Math.hypot(move.to.x - move.from.x, move.to.y - move.from.y, dz);
+};
+
+// Points along a move, excluding its start: the end point, or chords of at most `chord` mm
+// for arcs (an arc ending where it started is a full circle)
+export const movePoints = (move: GCodeMove, chord: number = 0.5): Point3[] => {
+  if (!move.arc) return [move.to];
+  const { from, to } = move;
+  const { center, clockwise } = move.arc;
+  const radius = Math.hypot(from.x - center.x, from.y - center.y);
+  const a0 = Math.atan2(from.y - center.y, from.x - center.x);
+  const sweep = arcLength(from, to, center, clockwise) / (radius || 1);
+  const steps = Math.min(360, Math.max(1, Math.ceil(sweep * radius / chord)));
+  const points: Point3[] = [];
+  for (let k = 1; k <= steps; k++) {
+    const t = k / steps;
+    const a = a0 + (clockwise ? -1 : 1) * sweep * t;
+    points.push(k === steps ? to : {
+      x: center.x + Math.cos(a) * radius,
+      y: center.y + Math.sin(a) * radius,
+      z: from.z + (to.z - from.z) * t
+    });
+  }
+  return points;
+};
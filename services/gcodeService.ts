@@ -1,372 +1,543 @@
 import * as THREE from 'three';
-import { SVGLoader } from 'three/examples/jsm/loaders/SVGLoader';
-import { PrinterSettings, ModelSettings, FileType, Segment } from '../types';
-import { shapeToSegments, getScanlineIntersections, calculateExtrusion } from '../utils/geometryHelper';
-import { loadImage, getImageData, generateHatchFromImage, traceContours } from '../utils/imageHelper';
-
-export const generateGCode = async (
-  content: string, // SVG string or DataURL
-  fileType: FileType,
+import { PrinterSettings, ModelSettings, Segment, Point, Polygon, FillGroup, PathMove, PlateObject } from '../types';
+import { shapeToSegments, calculateExtrusion } from '../utils/geometryHelper';
+import { resolveFillRegions, resolvePolygons, subtractPolygons, offsetPolygons, regionsToPolygons } from '../utils/polygonOffset';
+import { loadSVGFillGroups, loadSVGOutlines, sortByPenOrder, svgCurveTolerance } from '../utils/svgHelper';
+import { loadImage, getImageData, generateHatchFromImage, vectorizeImage, IMAGE_PROCESS_WIDTH } from '../utils/imageHelper';
+import { optimizePathOrder, calculateTravelDistance, chainSegments } from '../utils/pathOptimizer';
+import { generateInfillPaths, generateHatchPaths } from '../utils/infillPatterns';
+import { polylineMoves, formatMove, arcLength, arcToleranceOf } from '../utils/arcFitter';
+import { createPlacement, SourceBounds } from '../utils/placement';
+import { getFlavor, startSequence, endSequence, GCodeFlavor } from './gcodeFlavors';
+import { generateLaserGCode } from './laserService';
+import { estimateGCode, estimateHeader } from './gcodeEstimator';
+
+// Segment endpoints closer than this (mm) are treated as connected when building strokes
+const STROKE_JOIN_TOLERANCE = 0.01;
+
+// Tracks nozzle position and E for the extrusion generators, and inserts
+// retraction / wipe / prime moves around travels.
+const createExtruder = (printerSettings: PrinterSettings) => {
+  let currentE = 0;
+  // E word for a move that changes the filament position by `delta` (M83 wants the delta, M82 the running total)
+  const eWord = (delta: number) => `E${(printerSettings.relativeExtrusion ? delta : currentE).toFixed(5)}`;
+  let position: Point | null = null;
+  let lastExtrudedFrom: Point | null = null; // start of the most recent extrusion move, for wiping
+  let isRetracted = false;
+
+  const retract = (): string => {
+      if (isRetracted || printerSettings.retractionDistance <= 0) return '';
+      let out = '';
+
+      // Wipe: drag the nozzle back over the line just printed before pulling filament
+      if (printerSettings.wipeDistance > 0 && position && lastExtrudedFrom) {
+          const dx = lastExtrudedFrom.x - position.x;
+          const dy = lastExtrudedFrom.y - position.y;
+          const len = Math.sqrt(dx * dx + dy * dy);
+          if (len > 0) {
+              const t = Math.min(1, printerSettings.wipeDistance / len);
+              const wipeTo = { x: position.x + dx * t, y: position.y + dy * t };
+              out += `G0 X${wipeTo.x.toFixed(3)} Y${wipeTo.y.toFixed(3)} F${printerSettings.printSpeed}\n`;
+              position = wipeTo;
+          }
+      }
+
+      currentE -= printerSettings.retractionDistance;
+      out += `G1 ${eWord(-printerSettings.retractionDistance)} F${printerSettings.retractionSpeed}\n`;
+      isRetracted = true;
+      return out;
+  };
+
+  const unretract = (): string => {
+      if (!isRetracted) return '';
+      const prime = printerSettings.retractionDistance + printerSettings.retractionExtraRestart;
+      currentE += prime;
+      isRetracted = false;
+      return `G1 ${eWord(prime)} F${printerSettings.retractionSpeed}\n`;
+  };
+
+  const travelTo = (p: Point): string => {
+      let out = '';
+      if (position) {
+          const dist = Math.sqrt(Math.pow(p.x - position.x, 2) + Math.pow(p.y - position.y, 2));
+          if (dist < 0.0001) return out;
+          if (dist > printerSettings.retractionMinTravel) out += retract();
+      }
+      out += `G0 X${p.x.toFixed(3)} Y${p.y.toFixed(3)} F${printerSettings.travelSpeed}\n`;
+      position = p;
+      lastExtrudedFrom = null;
+      return out;
+  };
+
+  // Extrude along a straight or arc move; arcs meter filament by their arc length
+  const extrudeMove = (move: PathMove): string => {
+      let out = unretract();
+      const p = move.to;
+      const from = position || p;
+      const dist = move.kind === 'arc'
+          ? arcLength(from, p, move.center, move.clockwise)
+          : Math.sqrt(Math.pow(p.x - from.x, 2) + Math.pow(p.y - from.y, 2));
+      const extrude = calculateExtrusion(dist, printerSettings.layerHeight, printerSettings.nozzleDiameter, printerSettings.filamentDiameter);
+      const delta = extrude * printerSettings.extrusionMultiplier;
+      currentE += delta;
+      out += `${formatMove(from, move)} ${eWord(delta)} F${printerSettings.printSpeed}\n`;
+      // Wiping retraces straight towards the previous point, which is only meaningful after a line
+      lastExtrudedFrom = move.kind === 'line' ? from : null;
+      position = p;
+      return out;
+  };
+
+  const extrudeTo = (p: Point): string => extrudeMove({ kind: 'line', to: p });
+
+  return { travelTo, extrudeTo, extrudeMove, retract, getPosition: () => position };
+};
+
+// Pen up/down commands for the configured lift strategy. With Z-hop the pen travels at
+// z + zHop; servo and custom lifts keep Z at the drawing height for the whole job.
+const createPenLift = (printerSettings: PrinterSettings, flavor: GCodeFlavor) => {
+  const snippet = (code: string) => code.trim() ? code.trim() + '\n' : '';
+  const dwell = () => printerSettings.penDownDwell > 0 ? flavor.dwell(printerSettings.penDownDwell) : '';
+
+  const up = (z: number): string => {
+      switch (printerSettings.penLift) {
+          case 'servo': return `M280 P0 S${printerSettings.penUpAngle}\n`;
+          case 'custom': return snippet(printerSettings.penUpGCode);
+          default: return `G0 Z${(z + printerSettings.zHop).toFixed(3)} F${printerSettings.travelSpeed}\n`;
+      }
+  };
+
+  const down = (z: number): string => {
+      switch (printerSettings.penLift) {
+          case 'servo': return `M280 P0 S${printerSettings.penDownAngle}\n` + dwell();
+          case 'custom': return snippet(printerSettings.penDownGCode) + dwell();
+          default: return `G1 Z${z.toFixed(3)} F${printerSettings.travelSpeed}\n` + dwell();
+      }
+  };
+
+  // Raise the pen and bring Z to where travels between strokes happen
+  const startLayer = (z: number): string => {
+      if (printerSettings.penLift === 'zhop') return up(z);
+      return up(z) + `G0 Z${z.toFixed(3)} F${printerSettings.travelSpeed}\n`;
+  };
+
+  // Z the pen travels at between strokes
+  const travelZ = (z: number): number => printerSettings.penLift === 'zhop' ? z + printerSettings.zHop : z;
+
+  return { up, down, startLayer, travelZ };
+};
+
+// Everything on the plate as one job
+export const generatePlateGCode = async (
+  objects: PlateObject[],
   printerSettings: PrinterSettings,
-  modelSettings: ModelSettings,
   prefix: string
 ): Promise<string> => {
-  
-  // 1. Prepare segments/paths based on file type and mode
-  let segmentsToPrint: Segment[] = [];
-  
-  // Plotter Override: Temp 0, 1 Layer
-  const actualBedTemp = modelSettings.isPlotterMode ? 0 : printerSettings.bedTemperature;
-  const actualNozzleTemp = modelSettings.isPlotterMode ? 0 : printerSettings.temperature;
-  const targetLayers = modelSettings.isPlotterMode ? 1 : Math.floor(modelSettings.targetHeight / printerSettings.layerHeight);
-  
-  const bedCenter = { x: printerSettings.bedWidth / 2, y: printerSettings.bedDepth / 2 };
-
-  // Helper to center and scale points from Source Space to Bed Space
-  // Note: SVG/Image Y is down, Printer Y is up.
-  const transformToBed = (x: number, y: number, srcWidth: number, srcHeight: number) => {
-      const scale = modelSettings.scale;
-      // Center of source
-      const cx = srcWidth / 2;
-      const cy = srcHeight / 2;
-      
-      const dx = (x - cx) * scale;
-      const dy = (y - cy) * scale;
-
-      // Flip Y for printer coordinate system
-      return {
-          x: bedCenter.x + dx,
-          y: bedCenter.y - dy 
-      };
-  };
+  if (objects.length === 0) throw new Error('The plate is empty. Add a file first.');
+  const gcode = await buildGCode(objects, printerSettings, prefix);
+  // Time / filament go on top, where printer UIs look for them
+  const estimate = estimateGCode(gcode, printerSettings);
+  return estimateHeader(estimate, getFlavor(printerSettings.gcodeFlavor), !objects[0].settings.isPlotterMode) + gcode;
+};
+
+// What one plate object draws in plotter mode, in bed space: its segments per pen color
+// (null for the single implicit pen of a hatched image), skipped pens left out
+const plotterPenGroups = async (
+  object: PlateObject,
+  printerSettings: PrinterSettings
+): Promise<{ color: string | null; segments: Segment[] }[]> => {
+  const { content, fileType, settings: modelSettings } = object;
 
   if (fileType === 'image') {
       const img = await loadImage(content);
       // Process Image
-      // Max resolution for processing to keep it fast
-      const procWidth = 512;
+      const procWidth = IMAGE_PROCESS_WIDTH;
       const procHeight = Math.floor(procWidth * (img.height / img.width));
       const imageData = getImageData(img, procWidth, procHeight);
 
-      if (modelSettings.isPlotterMode) {
-          // Density Hashing for Shades
-          const style = modelSettings.hatchStyle || 'cross';
-          
-          // Calculate spacing in pixels based on Pen Diameter (nozzleDiameter) and Scale
-          // We want the physical gap between densest lines to match the pen diameter.
-          // Physical_Distance = Pixel_Distance * Scale
-          // Pixel_Distance = Pen_Diameter_mm / Scale
-          const mmPerPixel = modelSettings.scale > 0.0001 ? modelSettings.scale : 1;
-          const penWidthPx = printerSettings.nozzleDiameter / mmPerPixel;
-          
-          // Determine base spacing.
-          // Cross Style: 2 directional passes. Densest area has lines at 0 and 0.5 offsets per direction.
-          // Effective gap is 0.5 * Spacing. We want Gap = PenWidth. => Spacing = 2 * PenWidth.
-          // Linear Styles (Diagonal/etc): Densest area has 0, 0.25, 0.5, 0.75 offsets.
-          // Effective gap is 0.25 * Spacing. We want Gap = PenWidth => Spacing = 4 * PenWidth.
-          
-          let spacingMultiplier = 4.0;
-          if (style === 'cross') spacingMultiplier = 2.0;
-          
-          let pxSpacing = penWidthPx * spacingMultiplier;
-          
-          // Safety clamp for pixel processing to prevent freezing on extremely small scales
-          // 0.5px spacing is extremely dense for 512px image
-          if (pxSpacing < 0.5) pxSpacing = 0.5;
-
-          const rawSegments: Segment[] = [];
-          
-          if (style === 'cross') {
-             // 1. Base Diagonal / (Light Gray+)
-             rawSegments.push(...generateHatchFromImage(imageData, 220, 45, pxSpacing, procWidth, procHeight));
-             // 2. Cross Diagonal \ (Mid Gray+)
-             rawSegments.push(...generateHatchFromImage(imageData, 140, -45, pxSpacing, procWidth, procHeight));
-             // 3. Dense Diagonal / (Dark Gray) - Offset
-             rawSegments.push(...generateHatchFromImage(imageData, 70, 45, pxSpacing, procWidth, procHeight, pxSpacing/2));
-             // 4. Dense Cross \ (Black) - Offset
-             rawSegments.push(...generateHatchFromImage(imageData, 30, -45, pxSpacing, procWidth, procHeight, pxSpacing/2));
-          } 
-          else if (style === 'diagonal') {
-             // 1. Base /
-             rawSegments.push(...generateHatchFromImage(imageData, 220, 45, pxSpacing, procWidth, procHeight));
-             // 2. Offset / (Mid)
-             rawSegments.push(...generateHatchFromImage(imageData, 140, 45, pxSpacing, procWidth, procHeight, pxSpacing/2));
-             // 3. Dense / (Dark)
-             rawSegments.push(...generateHatchFromImage(imageData, 60, 45, pxSpacing, procWidth, procHeight, pxSpacing/4));
-             rawSegments.push(...generateHatchFromImage(imageData, 60, 45, pxSpacing, procWidth, procHeight, pxSpacing*0.75));
-          }
-          else if (style === 'horizontal') {
-             rawSegments.push(...generateHatchFromImage(imageData, 220, 0, pxSpacing, procWidth, procHeight));
-             rawSegments.push(...generateHatchFromImage(imageData, 140, 0, pxSpacing, procWidth, procHeight, pxSpacing/2));
-             rawSegments.push(...generateHatchFromImage(imageData, 60, 0, pxSpacing, procWidth, procHeight, pxSpacing/4));
-             rawSegments.push(...generateHatchFromImage(imageData, 60, 0, pxSpacing, procWidth, procHeight, pxSpacing*0.75));
-          }
-          else if (style === 'vertical') {
-             rawSegments.push(...generateHatchFromImage(imageData, 220, 90, pxSpacing, procWidth, procHeight));
-             rawSegments.push(...generateHatchFromImage(imageData, 140, 90, pxSpacing, procWidth, procHeight, pxSpacing/2));
-             rawSegments.push(...generateHatchFromImage(imageData, 60, 90, pxSpacing, procWidth, procHeight, pxSpacing/4));
-             rawSegments.push(...generateHatchFromImage(imageData, 60, 90, pxSpacing, procWidth, procHeight, pxSpacing*0.75));
-          }
-
-          segmentsToPrint = rawSegments.map(s => ({
-              p1: transformToBed(s.p1.x, s.p1.y, procWidth, procHeight),
-              p2: transformToBed(s.p2.x, s.p2.y, procWidth, procHeight)
-          }));
-
-      } else {
-          // Standard 3D Print from Image -> Contour Trace
-          const rawSegments = traceContours(imageData, procWidth, procHeight);
-           segmentsToPrint = rawSegments.map(s => ({
-              p1: transformToBed(s.p1.x, s.p1.y, procWidth, procHeight),
-              p2: transformToBed(s.p2.x, s.p2.y, procWidth, procHeight)
-          }));
-      }
-
-  } else {
-      // SVG Handling
-      const loader = new SVGLoader();
-      const svgData = loader.parse(content);
+      // Plotter: Density Hashing for Shades
+      const style = modelSettings.hatchStyle || 'cross';
       
-      // Calculate SVG bounds for centering
-      let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+      // Calculate spacing in pixels based on Pen Diameter (nozzleDiameter) and Scale
+      // We want the physical gap between densest lines to match the pen diameter.
+      // Physical_Distance = Pixel_Distance * Scale
+      // Pixel_Distance = Pen_Diameter_mm / Scale
+      const mmPerPixel = modelSettings.scale > 0.0001 ? modelSettings.scale : 1;
+      const penWidthPx = printerSettings.nozzleDiameter / mmPerPixel;
       
-      // Collect shapes
-      const shapes: THREE.Shape[] = [];
-      svgData.paths.forEach((path) => {
-        const pathShapes = SVGLoader.createShapes(path);
-        pathShapes.forEach((shape) => {
-           shapes.push(shape);
-           shape.getPoints().forEach(p => {
-               if(p.x < minX) minX = p.x; if(p.x > maxX) maxX = p.x;
-               if(p.y < minY) minY = p.y; if(p.y > maxY) maxY = p.y;
-           });
-        });
-      });
+      // Determine base spacing.
+      // Cross Style: 2 directional passes. Densest area has lines at 0 and 0.5 offsets per direction.
+      // Effective gap is 0.5 * Spacing. We want Gap = PenWidth. => Spacing = 2 * PenWidth.
+      // Linear Styles (Diagonal/etc): Densest area has 0, 0.25, 0.5, 0.75 offsets.
+      // Effective gap is 0.25 * Spacing. We want Gap = PenWidth => Spacing = 4 * PenWidth.
       
-      if (shapes.length === 0 || minX === Infinity) {
-          throw new Error("No paths found in SVG. Ensure it is a valid SVG with path elements.");
-      }
-      
-      const svgWidth = maxX - minX;
-      const svgHeight = maxY - minY;
+      let spacingMultiplier = 4.0;
+      if (style === 'cross') spacingMultiplier = 2.0;
       
-      // Shift so (0,0) is center of SVG content relative to its bounds
-      // The transformToBed expects inputs relative to 0..width.
+      let pxSpacing = penWidthPx * spacingMultiplier;
       
-      // Let's adjust shape points
-      shapes.forEach(shape => {
-          if (modelSettings.isPlotterMode) {
-              // Just outlines for plotter
-               const pts = shape.getPoints();
-               for(let i=0; i<pts.length; i++) {
-                   const p1 = pts[i];
-                   const p2 = pts[(i+1)%pts.length];
-                   // Adjust p relative to minX/minY to be 0-indexed
-                   segmentsToPrint.push({
-                       p1: transformToBed(p1.x - minX, p1.y - minY, svgWidth, svgHeight),
-                       p2: transformToBed(p2.x - minX, p2.y - minY, svgWidth, svgHeight)
-                   });
-               }
-               // Holes
-               shape.holes.forEach(h => {
-                   const pts = h.getPoints();
-                    for(let i=0; i<pts.length; i++) {
-                       const p1 = pts[i];
-                       const p2 = pts[(i+1)%pts.length];
-                       segmentsToPrint.push({
-                           p1: transformToBed(p1.x - minX, p1.y - minY, svgWidth, svgHeight),
-                           p2: transformToBed(p2.x - minX, p2.y - minY, svgWidth, svgHeight)
-                       });
-                   }
-               });
-
-          } else {
-               // Standard Slicing handled separately
-          }
-      });
+      // Safety clamp for pixel processing to prevent freezing on extremely small scales
+      // 0.5px spacing is extremely dense for 512px image
+      if (pxSpacing < 0.5) pxSpacing = 0.5;
+
+      const rawSegments: Segment[] = [];
       
-      // If SVG Standard mode, we skip the `segmentsToPrint` generic loop and use the specific slicer logic below.
-      if (!modelSettings.isPlotterMode) {
-           return generateSVGStandardGCode(shapes, printerSettings, modelSettings, prefix, minX, minY, maxX, maxY);
+      if (style === 'cross') {
+         // 1. Base Diagonal / (Light Gray+)
+         rawSegments.push(...generateHatchFromImage(imageData, 220, 45, pxSpacing, procWidth, procHeight));
+         // 2. Cross Diagonal \ (Mid Gray+)
+         rawSegments.push(...generateHatchFromImage(imageData, 140, -45, pxSpacing, procWidth, procHeight));
+         // 3. Dense Diagonal / (Dark Gray) - Offset
+         rawSegments.push(...generateHatchFromImage(imageData, 70, 45, pxSpacing, procWidth, procHeight, pxSpacing/2));
+         // 4. Dense Cross \ (Black) - Offset
+         rawSegments.push(...generateHatchFromImage(imageData, 30, -45, pxSpacing, procWidth, procHeight, pxSpacing/2));
+      } 
+      else if (style === 'diagonal') {
+         // 1. Base /
+         rawSegments.push(...generateHatchFromImage(imageData, 220, 45, pxSpacing, procWidth, procHeight));
+         // 2. Offset / (Mid)
+         rawSegments.push(...generateHatchFromImage(imageData, 140, 45, pxSpacing, procWidth, procHeight, pxSpacing/2));
+         // 3. Dense / (Dark)
+         rawSegments.push(...generateHatchFromImage(imageData, 60, 45, pxSpacing, procWidth, procHeight, pxSpacing/4));
+         rawSegments.push(...generateHatchFromImage(imageData, 60, 45, pxSpacing, procWidth, procHeight, pxSpacing*0.75));
+      }
+      else if (style === 'horizontal') {
+         rawSegments.push(...generateHatchFromImage(imageData, 220, 0, pxSpacing, procWidth, procHeight));
+         rawSegments.push(...generateHatchFromImage(imageData, 140, 0, pxSpacing, procWidth, procHeight, pxSpacing/2));
+         rawSegments.push(...generateHatchFromImage(imageData, 60, 0, pxSpacing, procWidth, procHeight, pxSpacing/4));
+         rawSegments.push(...generateHatchFromImage(imageData, 60, 0, pxSpacing, procWidth, procHeight, pxSpacing*0.75));
+      }
+      else if (style === 'vertical') {
+         rawSegments.push(...generateHatchFromImage(imageData, 220, 90, pxSpacing, procWidth, procHeight));
+         rawSegments.push(...generateHatchFromImage(imageData, 140, 90, pxSpacing, procWidth, procHeight, pxSpacing/2));
+         rawSegments.push(...generateHatchFromImage(imageData, 60, 90, pxSpacing, procWidth, procHeight, pxSpacing/4));
+         rawSegments.push(...generateHatchFromImage(imageData, 60, 90, pxSpacing, procWidth, procHeight, pxSpacing*0.75));
       }
+
+      // Scale, rotate, mirror and place from image pixels to the bed (Y flips: image Y is down)
+      const toBed = createPlacement({ minX: 0, minY: 0, maxX: procWidth, maxY: procHeight }, modelSettings, printerSettings);
+      return [{
+          color: null,
+          segments: rawSegments.map(s => ({ p1: toBed(s.p1), p2: toBed(s.p2) }))
+      }];
   }
 
+  // SVG Handling (Plotter): outlines (and optionally hatched fills), one pen per color
+  // in the user's pen order
+  const { groups, fills, minX, minY, maxX, maxY } = loadSVGOutlines(content, modelSettings.svgPlotMode, modelSettings.hatchFills, svgCurveTolerance(modelSettings));
+  const toBed = createPlacement({ minX, minY, maxX, maxY }, modelSettings, printerSettings);
+  const byColor = new Map<string, Segment[]>();
+  groups.forEach(g => byColor.set(g.color, g.segments.map(s => ({ p1: toBed(s.p1), p2: toBed(s.p2) }))));
 
-  // --- GENERIC GCODE GENERATION FOR SEGMENTS (Plotter / Image Trace) ---
-  
-  let gcode = `; Generated by React SVG Slicer (${modelSettings.isPlotterMode ? 'Plotter Mode' : 'Standard Mode'})\n`;
-  gcode += `; Settings: Nozzle ${printerSettings.nozzleDiameter}mm\n\n`;
-  gcode += prefix + '\n\n';
+  // A fill only shows where no later fill is painted over it (white counters on a black shape
+  // included), so each path keeps just its uncovered part. Paths never cut each other, as
+  // when the SVG is rendered.
+  const visible: Polygon[][] = new Array(fills.length);
+  let covered: Polygon[] = [];
+  for (let i = fills.length - 1; i >= 0; i--) {
+      const { fillGroup } = fills[i];
+      const rings = resolvePolygons(fillGroup.rings.map(r => r.map(toBed)), fillGroup.fillRule);
+      visible[i] = covered.length > 0 ? subtractPolygons(rings, covered) : rings;
+      covered = covered.length > 0 ? resolvePolygons([...covered, ...rings], 'nonzero') : rings;
+  }
+  const visibleByColor = new Map<string, Polygon[]>();
+  fills.forEach(({ color }, i) => visibleByColor.set(color, [...(visibleByColor.get(color) || []), ...visible[i]]));
+
+  // Hatching is generated in bed space so the spacing is in mm: solid fills get lines
+  // one pen width apart; with hatchByLightness lighter colors spread them out.
+  visibleByColor.forEach((rings, color) => {
+      let spacing = printerSettings.nozzleDiameter;
+      if (modelSettings.hatchByLightness) {
+          const hsl = { h: 0, s: 0, l: 0 };
+          new THREE.Color(color).getHSL(hsl);
+          const darkness = 1 - hsl.l;
+          if (darkness < 0.05) return; // White: nothing to hatch
+          spacing /= darkness;
+      }
+      if (rings.length === 0) return;
+      const hatch = generateHatchPaths(resolvePolygons(rings, 'nonzero'), modelSettings.hatchStyle, spacing);
+      const segments = byColor.get(color) || [];
+      hatch.forEach(line => segments.push({ p1: line[0], p2: line[line.length - 1] }));
+      byColor.set(color, segments);
+  });
+
+  const pens = sortByPenOrder(Array.from(byColor.keys()), c => c, modelSettings.penOrder)
+      .filter(c => !modelSettings.skippedPens.includes(c));
+  return pens.map(color => ({ color, segments: byColor.get(color)! }));
+};
+
+const buildGCode = async (
+  objects: PlateObject[],
+  printerSettings: PrinterSettings,
+  prefix: string
+): Promise<string> => {
+  // Modes are job-wide (the plate keeps them equal on every object), so the first object's settings stand for the job
+  const modelSettings = objects[0].settings;
   
-  // Start
+  const flavor = getFlavor(printerSettings.gcodeFlavor);
+  const arcTolerance = arcToleranceOf(printerSettings);
+
+  if (modelSettings.isPlotterMode && modelSettings.isLaserMode) {
+      return generateLaserGCode(objects, printerSettings, prefix);
+  }
+
+  if (!modelSettings.isPlotterMode && !flavor.supportsExtrusion) {
+      throw new Error(`${flavor.label} has no extruder axis. Switch to Plotter mode or pick a printer firmware flavor.`);
+  }
+
   if (!modelSettings.isPlotterMode) {
-     gcode += `M104 S${actualNozzleTemp}\n`;
-     gcode += `M140 S${actualBedTemp}\n`;
-     gcode += `M109 S${actualNozzleTemp}\n`;
-     gcode += `M190 S${actualBedTemp}\n`;
-  } else {
-      gcode += `; Plotter Mode: Temps disabled\n`;
+      const solids: SolidObject[] = [];
+      for (const object of objects) solids.push(await prepareSolidObject(object, printerSettings));
+      return generateSVGStandardGCode(solids, printerSettings, prefix);
+  }
+
+  // Plotter from here on: no heating, one layer.
+  // Collect every object's segments per pen, so each pen is drawn once for the whole plate
+  // and its strokes get one path order across all objects. Each pen group is drawn in turn;
+  // color is null for the single implicit pen of hatched images, drawn first.
+  const byPen = new Map<string | null, Segment[]>();
+  const penOrder: string[] = [];
+  for (const object of objects) {
+      for (const { color, segments } of await plotterPenGroups(object, printerSettings)) {
+          byPen.set(color, [...(byPen.get(color) || []), ...segments]);
+      }
+      object.settings.penOrder.forEach(c => { if (!penOrder.includes(c)) penOrder.push(c); });
+  }
+  const colors = sortByPenOrder(Array.from(byPen.keys()).filter((c): c is string => c !== null), c => c, penOrder);
+  const penGroups = [...(byPen.has(null) ? [null] : []), ...colors].map(color => ({ color, segments: byPen.get(color)! }));
+  if (penGroups.length === 0) {
+      throw new Error("All pen colors are skipped. Enable at least one pen.");
+  }
+
+
+  // Join segments that touch into continuous strokes, then reorder the strokes to cut down
+  // on pen-up travel. The machine starts from home (0,0) after G28; later pens start
+  // from the park position where the pen was swapped.
+  const homePosition = { x: 0, y: 0 };
+  const parkPosition = { x: 0, y: printerSettings.bedDepth };
+  let travelBefore = 0, travelAfter = 0, segmentCount = 0;
+  const penPasses = penGroups.map((group, gi) => {
+      const start = gi === 0 ? homePosition : parkPosition;
+      const chained = chainSegments(group.segments, STROKE_JOIN_TOLERANCE);
+      const strokes = optimizePathOrder(chained, start);
+      travelBefore += calculateTravelDistance(chained, start);
+      travelAfter += calculateTravelDistance(strokes, start);
+      segmentCount += group.segments.length;
+      return { color: group.color, strokes };
+  });
+  const strokeCount = penPasses.reduce((n, p) => n + p.strokes.length, 0);
+  
+  let gcode = flavor.comment(`Generated by React SVG Slicer (Plotter Mode, ${flavor.label})`);
+  gcode += flavor.comment(`Settings: Nozzle ${printerSettings.nozzleDiameter}mm`);
+  gcode += flavor.comment(`Strokes: ${strokeCount} (from ${segmentCount} segments)`);
+  if (penPasses.some(p => p.color)) {
+      gcode += flavor.comment(`Pens: ${penPasses.map(p => p.color).join(', ')}`);
   }
+  gcode += flavor.comment(`Travel distance: ${travelBefore.toFixed(1)}mm before optimization, ${travelAfter.toFixed(1)}mm after`) + '\n';
+  gcode += prefix + '\n\n';
   
-  gcode += `G90\nG21\nG28\n`;
-  const initialLift = modelSettings.isPlotterMode ? printerSettings.zHop + 15 : 15.0;
+  // Start
+  gcode += flavor.comment(`Plotter Mode: Temps disabled`);
+  gcode += startSequence(flavor, {});
+  const initialLift = Math.min(printerSettings.zHop + 15, printerSettings.maxHeight);
   gcode += `G0 Z${initialLift.toFixed(3)} F${printerSettings.travelSpeed}\n\n`;
 
-  let currentE = 0;
+  const pen = createPenLift(printerSettings, flavor);
+  const z = printerSettings.initialLayerHeight + printerSettings.zOffset;
 
-  for (let layer = 0; layer < targetLayers; layer++) {
-      const z = printerSettings.initialLayerHeight + (layer * printerSettings.layerHeight) + printerSettings.zOffset;
-      const zLift = z + printerSettings.zHop;
+  gcode += flavor.comment(`Layer 1`);
+  // Make sure the pen is up before the first move
+  gcode += pen.startLayer(z);
+  
+  for (let gi = 0; gi < penPasses.length; gi++) {
+      const { color, strokes } = penPasses[gi];
 
-      gcode += `; Layer ${layer+1}\n`;
-      
-      // Ensure we are at lift height before starting layer moves if plotter mode
-      if (modelSettings.isPlotterMode) {
-          gcode += `G0 Z${zLift.toFixed(3)} F${printerSettings.travelSpeed}\n`;
-      } else {
-          gcode += `G1 Z${z.toFixed(3)} F${printerSettings.travelSpeed}\n`;
+      if (color) {
+          // Pen change between colors (the pen is already up after the last stroke):
+          // park, wait for the swap, then re-home Z since the new pen's tip will not
+          // sit at exactly the same height
+          if (gi > 0) {
+              gcode += flavor.comment(`Pen change`);
+              gcode += `G0 X${parkPosition.x.toFixed(3)} Y${parkPosition.y.toFixed(3)} F${printerSettings.travelSpeed}\n`;
+              gcode += flavor.pause(`Insert pen ${gi + 1}: ${color}`, printerSettings.penChangeCommand);
+              gcode += flavor.homeZ();
+              gcode += pen.startLayer(z);
+          }
+          // Marker the viewer uses to color the following moves
+          gcode += flavor.comment(`PEN:${color}`);
       }
-      
-      for (const seg of segmentsToPrint) {
-          
-          if (modelSettings.isPlotterMode) {
-             // Plotter: 
-             // 1. Ensure lifted (Move to Start at Z-Hop height)
-             gcode += `G0 X${seg.p1.x.toFixed(3)} Y${seg.p1.y.toFixed(3)} F${printerSettings.travelSpeed}\n`;
-             // 2. Pen Down
-             gcode += `G1 Z${z.toFixed(3)} F${printerSettings.travelSpeed}\n`;
-             // 3. Draw
-             gcode += `G1 X${seg.p2.x.toFixed(3)} Y${seg.p2.y.toFixed(3)} F${printerSettings.printSpeed}\n`;
-             // 4. Pen Up (Z-Hop)
-             gcode += `G0 Z${zLift.toFixed(3)} F${printerSettings.travelSpeed}\n`;
-             
-          } else {
-             // Standard Extrusion
-             // Travel to start
-             gcode += `G0 X${seg.p1.x.toFixed(3)} Y${seg.p1.y.toFixed(3)} F${printerSettings.travelSpeed}\n`;
-             
-             const dist = Math.sqrt(Math.pow(seg.p2.x - seg.p1.x, 2) + Math.pow(seg.p2.y - seg.p1.y, 2));
-             const extrude = calculateExtrusion(dist, printerSettings.layerHeight, printerSettings.nozzleDiameter, printerSettings.filamentDiameter);
-             currentE += extrude * printerSettings.extrusionMultiplier;
-             gcode += `G1 X${seg.p2.x.toFixed(3)} Y${seg.p2.y.toFixed(3)} E${currentE.toFixed(5)} F${printerSettings.printSpeed}\n`;
+
+      // One pen-down/pen-up cycle per continuous stroke. Travels are always G0 and drawing
+      // always G1, so the viewer can tell them apart whatever the lift strategy.
+      for (const stroke of strokes) {
+          const start = stroke[0];
+          // 1. Move to start with the pen lifted
+          gcode += `G0 X${start.x.toFixed(3)} Y${start.y.toFixed(3)} F${printerSettings.travelSpeed}\n`;
+          // 2. Pen Down
+          gcode += pen.down(z);
+          // 3. Draw
+          let at = start;
+          for (const move of polylineMoves(stroke, arcTolerance)) {
+              gcode += `${formatMove(at, move)} F${printerSettings.printSpeed}\n`;
+              at = move.to;
           }
+          // 4. Pen Up
+          gcode += pen.up(z);
       }
   }
 
   // End
-  gcode += `\n; End\n`;
-  if (!modelSettings.isPlotterMode) {
-      gcode += `M104 S0\nM140 S0\n`;
-  }
-  gcode += `G91\nG0 Z10\nG90\nG0 X0 Y${printerSettings.bedDepth}\nM84\n`;
+  gcode += '\n' + flavor.comment('End');
+  gcode += endSequence(flavor, {
+      heated: false,
+      bedDepth: printerSettings.bedDepth,
+      travelSpeed: printerSettings.travelSpeed,
+      fromZ: pen.travelZ(z),
+      maxHeight: printerSettings.maxHeight
+  });
 
   return gcode;
 };
 
 
-// Legacy/Specific logic for SVG -> 3D Print
+// One object of a 3D job, reduced to what every layer prints: the cross-section is the same
+// on every layer, so walls and the infill boundary are built once
+interface SolidObject {
+  settings: ModelSettings;
+  layers: number;
+  wallLoops: Polygon[];
+  infillBoundary: Polygon[];
+  spacing: number; // Sparse infill line spacing
+  center: Point; // Bed position, for ordering objects within a layer
+}
+
+const prepareSolidObject = async (object: PlateObject, printerSettings: PrinterSettings): Promise<SolidObject> => {
+  const { content, fileType, settings: modelSettings } = object;
+  let groups: FillGroup[];
+  let bounds: SourceBounds;
+  if (fileType === 'image') {
+      // Standard 3D Print from Image -> vectorize into shapes and slice like an SVG
+      // Traced loops nest outer/hole/outer..., which is exactly what evenodd fills
+      const { contours, width, height } = await vectorizeImage(content, modelSettings.traceThreshold);
+      groups = [{ rings: contours.map(c => c.points), fillRule: 'evenodd' }];
+      bounds = { minX: 0, minY: 0, maxX: width, maxY: height };
+  } else {
+      const loaded = loadSVGFillGroups(content, svgCurveTolerance(modelSettings));
+      groups = loaded.groups;
+      bounds = loaded;
+  }
+
+  // Source space to bed: scale, mirror, rotate and place on the anchor
+  const transformPoint = createPlacement(bounds, modelSettings, printerSettings);
+
+  // All rings are merged under their fill rules into non-overlapping regions first, so
+  // overlapping paths print once and nested counters stay empty.
+  const regions = resolveFillRegions(groups.map(g => ({ ...g, rings: g.rings.map(r => r.map(transformPoint)) })));
+
+  // Walls: the outer wall's centreline sits half a nozzle inside the outline so the
+  // printed edge lands on it; each further wall steps in by one nozzle width.
+  const nozzle = printerSettings.nozzleDiameter;
+  const wallCount = Math.max(1, Math.floor(modelSettings.wallCount));
+  const wallLoops: Polygon[] = [];
+  for (let w = 0; w < wallCount; w++) {
+      wallLoops.push(...offsetPolygons(regionsToPolygons(regions), -(nozzle / 2 + w * nozzle)));
+  }
+
+  // Infill fills what's inside the innermost wall, reaching back into it by the overlap
+  const wallsInset = wallCount * nozzle;
+  const infillBoundary = offsetPolygons(regionsToPolygons(regions), -(wallsInset - nozzle * modelSettings.infillOverlap / 100));
+
+  let spacing = nozzle;
+  if (modelSettings.fillDensity < 100 && modelSettings.fillDensity > 0) {
+     spacing = nozzle * (100 / modelSettings.fillDensity);
+  }
+
+  return {
+      settings: { ...modelSettings, wallCount },
+      layers: Math.floor(modelSettings.targetHeight / printerSettings.layerHeight),
+      wallLoops,
+      infillBoundary,
+      spacing,
+      center: transformPoint({ x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 })
+  };
+};
+
+// SVG / traced image -> 3D print. All objects share the layers: each layer prints every object
+// that is still that tall, nearest first, and an object stops once it reaches its own height.
 const generateSVGStandardGCode = async (
-    shapes: THREE.Shape[], 
-    printerSettings: PrinterSettings, 
-    modelSettings: ModelSettings, 
-    prefix: string,
-    minX: number, minY: number, maxX: number, maxY: number
+    solids: SolidObject[],
+    printerSettings: PrinterSettings,
+    prefix: string
 ): Promise<string> => {
-     // Re-implement the original loop but using the bounds passed in
-     
-     const layers = Math.floor(modelSettings.targetHeight / printerSettings.layerHeight);
+     const layers = Math.max(...solids.map(o => o.layers));
      const bedCenter = { x: printerSettings.bedWidth / 2, y: printerSettings.bedDepth / 2 };
-     const svgWidth = maxX - minX;
-     const svgHeight = maxY - minY;
-
-     let gcode = `; Generated by React SVG Slicer (Standard SVG)\n`;
-     gcode += `; Nozzle ${printerSettings.nozzleDiameter}mm, Layer ${printerSettings.layerHeight}mm\n\n`;
-     gcode += prefix + '\n';
-     gcode += `M104 S${printerSettings.temperature}\nM140 S${printerSettings.bedTemperature}\n`;
-     gcode += `G90\nG21\nM109 S${printerSettings.temperature}\nM190 S${printerSettings.bedTemperature}\nG28\n`;
-     gcode += `G1 Z15.0 F${printerSettings.travelSpeed}\n\n`;
+     const modelSettings = solids[0].settings;
+
+     const flavor = getFlavor(printerSettings.gcodeFlavor);
+     const arcTolerance = arcToleranceOf(printerSettings);
+     const nozzle = printerSettings.nozzleDiameter;
+
+     let gcode = flavor.comment(`Generated by React SVG Slicer (Standard SVG, ${flavor.label})`);
+     gcode += flavor.comment(`Nozzle ${printerSettings.nozzleDiameter}mm, Layer ${printerSettings.layerHeight}mm, Walls ${modelSettings.wallCount}, Top/Bottom ${modelSettings.topLayers}/${modelSettings.bottomLayers}`);
+     if (solids.length > 1) gcode += flavor.comment(`Objects: ${solids.length}`);
+     gcode += '\n' + prefix + '\n';
+     gcode += startSequence(flavor, {
+         heat: { nozzleTemp: printerSettings.temperature, bedTemp: printerSettings.bedTemperature },
+         relativeExtrusion: printerSettings.relativeExtrusion
+     });
+     gcode += `G1 Z${Math.min(15, printerSettings.maxHeight).toFixed(1)} F${printerSettings.travelSpeed}\n\n`;
      
-     let currentE = 0;
-
-     // Transform for SVG Standard (Normalization + Centering)
-     const transformPoint = (p: {x: number, y: number}) => {
-         const nx = p.x - minX;
-         const ny = p.y - minY;
-         const scale = modelSettings.scale;
-         const cx = svgWidth / 2;
-         const cy = svgHeight / 2;
-         const dx = (nx - cx) * scale;
-         const dy = (ny - cy) * scale;
-         return { x: bedCenter.x + dx, y: bedCenter.y - dy };
-      };
+     const extruder = createExtruder(printerSettings);
 
       for (let layer = 0; layer < layers; layer++) {
         const z = printerSettings.initialLayerHeight + (layer * printerSettings.layerHeight) + printerSettings.zOffset;
-        gcode += `; --- Layer ${layer + 1} (Z=${z.toFixed(2)}) ---\n`;
+        gcode += flavor.comment(`--- Layer ${layer + 1} (Z=${z.toFixed(2)}) ---`);
         gcode += `G1 Z${z.toFixed(3)} F${printerSettings.travelSpeed}\n`;
 
-        for (const shape of shapes) {
-            // Perimeters
-            const points = shape.getPoints();
-            if (points.length < 2) continue;
-            const start = transformPoint(points[0]);
-            gcode += `G0 X${start.x.toFixed(3)} Y${start.y.toFixed(3)} F${printerSettings.travelSpeed}\n`;
-            
-            for (let i = 1; i <= points.length; i++) {
-                const p = points[i % points.length];
-                const tp = transformPoint(p);
-                const prevP = points[(i - 1) % points.length];
-                const prevTp = transformPoint(prevP);
-                const dist = Math.sqrt(Math.pow(tp.x - prevTp.x, 2) + Math.pow(tp.y - prevTp.y, 2));
-                const extrude = calculateExtrusion(dist, printerSettings.layerHeight, printerSettings.nozzleDiameter, printerSettings.filamentDiameter);
-                currentE += extrude * printerSettings.extrusionMultiplier;
-                gcode += `G1 X${tp.x.toFixed(3)} Y${tp.y.toFixed(3)} E${currentE.toFixed(5)} F${printerSettings.printSpeed}\n`;
-            }
-
-            // Infill
-            if (modelSettings.generateInfill) {
-                const transformedPoints = points.map(transformPoint);
-                const segments = [];
-                for(let i=0; i<transformedPoints.length; i++) {
-                    segments.push({
-                        p1: transformedPoints[i],
-                        p2: transformedPoints[(i+1)%transformedPoints.length]
-                    });
-                }
-                 if (shape.holes) {
-                    shape.holes.forEach(h => {
-                         const hPoints = h.getPoints().map(transformPoint);
-                         for(let i=0; i<hPoints.length; i++) {
-                            segments.push({p1: hPoints[i], p2: hPoints[(i+1)%hPoints.length]});
-                        }
-                    });
-                }
-
-                let shapeMinY = Infinity;
-                let shapeMaxY = -Infinity;
-                transformedPoints.forEach(p => { if (p.y < shapeMinY) shapeMinY = p.y; if (p.y > shapeMaxY) shapeMaxY = p.y; });
-                
-                let spacing = printerSettings.nozzleDiameter;
-                if (modelSettings.fillDensity < 100 && modelSettings.fillDensity > 0) {
-                   spacing = printerSettings.nozzleDiameter * (100 / modelSettings.fillDensity);
-                }
-
-                for (let y = shapeMinY + spacing; y < shapeMaxY; y += spacing) {
-                    const intersections = getScanlineIntersections(y, segments);
-                    for (let k = 0; k < intersections.length - 1; k += 2) {
-                        const x1 = intersections[k];
-                        const x2 = intersections[k+1];
-                        gcode += `G0 X${x1.toFixed(3)} Y${y.toFixed(3)} F${printerSettings.travelSpeed}\n`;
-                        const dist = Math.abs(x2 - x1);
-                        const extrude = calculateExtrusion(dist, printerSettings.layerHeight, printerSettings.nozzleDiameter, printerSettings.filamentDiameter);
-                        currentE += extrude * printerSettings.extrusionMultiplier;
-                        gcode += `G1 X${x2.toFixed(3)} Y${y.toFixed(3)} E${currentE.toFixed(5)} F${printerSettings.printSpeed}\n`;
-                    }
-                }
-            }
+        // Objects still printing on this layer, each next one the closest to the nozzle
+        const pending = solids.filter(o => layer < o.layers);
+        while (pending.length > 0) {
+          const from = extruder.getPosition() || bedCenter;
+          let next = 0;
+          pending.forEach((o, i) => {
+              if (Math.hypot(o.center.x - from.x, o.center.y - from.y) < Math.hypot(pending[next].center.x - from.x, pending[next].center.y - from.y)) next = i;
+          });
+          const { settings, wallLoops, infillBoundary, spacing, layers: objectLayers } = pending.splice(next, 1)[0];
+
+          // Perimeters. ";TYPE:" comments name the feature for viewers (same convention as Cura/PrusaSlicer)
+          gcode += flavor.comment('TYPE:Perimeter');
+          for (const loop of wallLoops) {
+              gcode += extruder.travelTo(loop[0]);
+              for (const move of polylineMoves([...loop, loop[0]], arcTolerance)) {
+                  gcode += extruder.extrudeMove(move);
+              }
+          }
+
+          // Infill: the object's first/last few layers are solid skins (100%, alternating ±45°) so
+          // surfaces close; in between the selected sparse pattern. Lines are ordered to keep travel short.
+          const isSolidLayer = layer < settings.bottomLayers || layer >= objectLayers - settings.topLayers;
+          if (isSolidLayer || settings.generateInfill) {
+              const infillPaths = isSolidLayer
+                  ? generateInfillPaths(infillBoundary, 'rectilinear', nozzle, layer, z)
+                  : generateInfillPaths(infillBoundary, settings.infillPattern, spacing, layer, z);
+              gcode += flavor.comment(isSolidLayer ? 'TYPE:Solid infill' : 'TYPE:Infill');
+              for (const path of optimizePathOrder(infillPaths, extruder.getPosition() || bedCenter)) {
+                  gcode += extruder.travelTo(path[0]);
+                  for (let i = 1; i < path.length; i++) {
+                      gcode += extruder.extrudeTo(path[i]);
+                  }
+              }
+          }
         }
       }
 
-      gcode += `\nM104 S0\nM140 S0\nG91\nG1 Z10\nG90\nG1 X0 Y200\nM84\n`;
+      gcode += extruder.retract();
+      const endZ = printerSettings.initialLayerHeight + ((layers - 1) * printerSettings.layerHeight) + printerSettings.zOffset;
+      gcode += '\n' + endSequence(flavor, {
+          heated: true,
+          bedDepth: printerSettings.bedDepth,
+          travelSpeed: printerSettings.travelSpeed,
+          fromZ: endZ,
+          maxHeight: printerSettings.maxHeight
+      });
       return gcode;
-}
\ No newline at end of file
+}
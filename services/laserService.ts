@@ -0,0 +1,185 @@
+import { PrinterSettings, ModelSettings, Point, Segment, PlateObject } from '../types';
+import { loadImage, getImageData, IMAGE_PROCESS_WIDTH } from '../utils/imageHelper';
+import { loadSVGOutlines, svgCurveTolerance } from '../utils/svgHelper';
+import { optimizePathOrder, chainSegments } from '../utils/pathOptimizer';
+import { polylineMoves, formatMove, arcToleranceOf } from '../utils/arcFitter';
+import { createPlacement } from '../utils/placement';
+import { getFlavor, startSequence, endSequence } from './gcodeFlavors';
+
+// Segment endpoints closer than this (mm) are treated as connected when building cut paths
+const STROKE_JOIN_TOLERANCE = 0.01;
+
+// Power on the laser is set with an S word: on the M3/M4 that switches it on, and inline on
+// G1 moves while rastering (GRBL laser mode; Marlin needs LASER_POWER_INLINE).
+// Every travel happens with the laser switched off by M5, so G0 never burns whatever the firmware.
+
+const toS = (percent: number, printerSettings: PrinterSettings): number =>
+  Math.round(Math.max(0, Math.min(100, percent)) / 100 * printerSettings.laserMaxS);
+
+interface RasterRun {
+  x0: number;
+  x1: number;
+  s: number;
+}
+
+// Line-by-line engraving of an image. Darker pixels burn harder: white is off, the lightest
+// grey gets laserMinPower and black gets laserMaxPower.
+const generateRaster = async (
+  content: string,
+  printerSettings: PrinterSettings,
+  modelSettings: ModelSettings,
+  laserOn: string
+): Promise<string> => {
+  const img = await loadImage(content);
+  const procWidth = IMAGE_PROCESS_WIDTH;
+  const procHeight = Math.floor(procWidth * (img.height / img.width));
+  const imageData = getImageData(img, procWidth, procHeight);
+
+  // Same sizing as plotter hatching: one image pixel is `scale` mm
+  const mmPerPixel = modelSettings.scale > 0.0001 ? modelSettings.scale : 1;
+  const heightMM = procHeight * mmPerPixel;
+
+  // Rows are laid out in image space (mm from the top-left corner) and placed on the bed
+  // afterwards, so a rotated image is burnt along slanted rows
+  const place = createPlacement({ minX: 0, minY: 0, maxX: procWidth, maxY: procHeight }, { ...modelSettings, scale: mmPerPixel }, printerSettings);
+  const toBed = (x: number, y: number): Point => place({ x: x / mmPerPixel, y: y / mmPerPixel });
+  // Y is only written when the row isn't horizontal on the bed
+  const rowMove = (x: number, y: number, rowY: number): string => {
+    const p = toBed(x, y);
+    return Math.abs(p.y - rowY) > 0.0005 ? `X${p.x.toFixed(3)} Y${p.y.toFixed(3)}` : `X${p.x.toFixed(3)}`;
+  };
+
+  // Lines are one spot apart so neighbouring burns just touch
+  const lineSpacing = Math.max(printerSettings.nozzleDiameter, 0.01);
+  const rows = Math.floor(heightMM / lineSpacing);
+  const speed = modelSettings.laserRasterSpeed;
+  const overscan = Math.max(0, modelSettings.laserOverscan);
+
+  const powerAt = (px: number, py: number): number => {
+    const idx = (py * procWidth + px) * 4;
+    const lum = 0.299 * imageData.data[idx] + 0.587 * imageData.data[idx + 1] + 0.114 * imageData.data[idx + 2];
+    const darkness = 1 - lum / 255;
+    if (darkness < 1 / 255) return 0;
+    const percent = modelSettings.laserMinPower + (modelSettings.laserMaxPower - modelSettings.laserMinPower) * darkness;
+    return toS(percent, printerSettings);
+  };
+
+  let gcode = '';
+  let lineIndex = 0;
+
+  for (let r = 0; r < rows; r++) {
+    const yMM = (r + 0.5) * lineSpacing;
+    const py = Math.min(procHeight - 1, Math.floor(yMM / mmPerPixel));
+
+    // Merge neighbouring pixels with equal power into runs, trimmed to the burnt part of the row
+    const runs: RasterRun[] = [];
+    for (let px = 0; px < procWidth; px++) {
+      const s = powerAt(px, py);
+      const x0 = px * mmPerPixel;
+      const lastRun = runs[runs.length - 1];
+      if (lastRun && lastRun.s === s) lastRun.x1 = x0 + mmPerPixel;
+      else runs.push({ x0, x1: x0 + mmPerPixel, s });
+    }
+    while (runs.length > 0 && runs[0].s === 0) runs.shift();
+    while (runs.length > 0 && runs[runs.length - 1].s === 0) runs.pop();
+    if (runs.length === 0) continue;
+
+    const reverse = modelSettings.laserBidirectional && lineIndex % 2 === 1;
+    const ordered = reverse ? runs.slice().reverse() : runs;
+    const dir = reverse ? -1 : 1;
+    const lineStart = reverse ? ordered[0].x1 : ordered[0].x0;
+    const lineEnd = reverse ? ordered[ordered.length - 1].x0 : ordered[ordered.length - 1].x1;
+
+    const start = toBed(lineStart - dir * overscan, yMM);
+    gcode += `G0 X${start.x.toFixed(3)} Y${start.y.toFixed(3)} F${printerSettings.travelSpeed}\n`;
+    gcode += `${laserOn} S0\n`;
+    gcode += `G1 ${rowMove(lineStart, yMM, start.y)} S0 F${speed}\n`;
+    for (const run of ordered) {
+      gcode += `G1 ${rowMove(reverse ? run.x0 : run.x1, yMM, start.y)} S${run.s}\n`;
+    }
+    gcode += `G1 ${rowMove(lineEnd + dir * overscan, yMM, start.y)} S0\n`;
+    gcode += `M5\n`;
+    lineIndex++;
+  }
+
+  return gcode;
+};
+
+// Vector cutting/scoring of SVG outlines at a fixed power, repeated laserPasses times.
+// Objects cut with the same power, speed and passes (copies, usually) are chained and
+// ordered together, so the head takes one short route across all of them.
+const generateCut = (
+  objects: PlateObject[],
+  printerSettings: PrinterSettings,
+  laserOn: string,
+  comment: (text: string) => string
+): string => {
+  const jobs = new Map<string, { settings: ModelSettings; segments: Segment[] }>();
+  for (const { content, settings } of objects) {
+    // Cutting ignores color: every outline gets the same power
+    const { groups, minX, minY, maxX, maxY } = loadSVGOutlines(content, settings.svgPlotMode, false, svgCurveTolerance(settings));
+    const toBed = createPlacement({ minX, minY, maxX, maxY }, settings, printerSettings);
+    const key = `${settings.laserCutPower}|${settings.laserCutSpeed}|${settings.laserPasses}`;
+    const job = jobs.get(key) || { settings, segments: [] };
+    groups.forEach(g => g.segments.forEach(s => job.segments.push({ p1: toBed(s.p1), p2: toBed(s.p2) })));
+    jobs.set(key, job);
+  }
+
+  const arcTolerance = arcToleranceOf(printerSettings);
+  let gcode = '';
+  let position: Point = { x: 0, y: 0 };
+  for (const { settings: modelSettings, segments } of jobs.values()) {
+    const chained = chainSegments(segments, STROKE_JOIN_TOLERANCE);
+    const paths = optimizePathOrder(chained, position);
+    const power = toS(modelSettings.laserCutPower, printerSettings);
+    const passes = Math.max(1, Math.floor(modelSettings.laserPasses));
+
+    gcode += comment(`Cut: power ${modelSettings.laserCutPower}%, ${modelSettings.laserCutSpeed}mm/min, ${passes} pass(es)`);
+    for (let pass = 0; pass < passes; pass++) {
+      gcode += comment(`Pass ${pass + 1}/${passes}`);
+      for (const path of paths) {
+        const moves = polylineMoves(path, arcTolerance);
+        gcode += `G0 X${path[0].x.toFixed(3)} Y${path[0].y.toFixed(3)} F${printerSettings.travelSpeed}\n`;
+        gcode += `${laserOn} S${power}\n`;
+        let at = path[0];
+        for (const move of moves) {
+          gcode += `${formatMove(at, move)} F${modelSettings.laserCutSpeed}\n`;
+          at = move.to;
+        }
+        gcode += `M5\n`;
+        position = at;
+      }
+    }
+  }
+  return gcode;
+};
+
+// Images are engraved first, one after another, then every SVG outline is cut
+export const generateLaserGCode = async (
+  objects: PlateObject[],
+  printerSettings: PrinterSettings,
+  prefix: string
+): Promise<string> => {
+  const flavor = getFlavor(printerSettings.gcodeFlavor);
+  const laserOn = printerSettings.laserDynamicPower ? 'M4' : 'M3';
+  const rasters = objects.filter(o => o.fileType === 'image');
+  const cuts = objects.filter(o => o.fileType !== 'image');
+
+  let gcode = flavor.comment(`Generated by React SVG Slicer (Laser Mode, ${flavor.label})`);
+  if (objects.length > 1) gcode += flavor.comment(`Objects: ${objects.length}`);
+  gcode += '\n' + prefix + '\n\n';
+
+  gcode += startSequence(flavor, {});
+  gcode += `M5\n\n`;
+
+  // Each object can burn with its own settings, so they're noted where each one starts
+  for (const { content, settings } of rasters) {
+    gcode += flavor.comment(`Raster: power ${settings.laserMinPower}-${settings.laserMaxPower}%, ${settings.laserRasterSpeed}mm/min, overscan ${settings.laserOverscan}mm${settings.laserBidirectional ? ', bidirectional' : ''}`);
+    gcode += await generateRaster(content, printerSettings, settings, laserOn);
+  }
+  if (cuts.length > 0) gcode += generateCut(cuts, printerSettings, laserOn, flavor.comment);
+
+  gcode += '\n' + flavor.comment('End');
+  gcode += endSequence(flavor, { heated: false, bedDepth: printerSettings.bedDepth, travelSpeed: printerSettings.travelSpeed, lift: false });
+  return gcode;
+};
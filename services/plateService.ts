@@ -0,0 +1,94 @@
+import { ArrangeMode, PlateObject, PrinterSettings } from '../types';
+import { loadImage, IMAGE_PROCESS_WIDTH } from '../utils/imageHelper';
+import { loadSVGFillGroups, loadSVGOutlines, svgCurveTolerance } from '../utils/svgHelper';
+import { placedFootprint, SourceBounds } from '../utils/placement';
+import { arrangeItems, findFreeSpot } from '../utils/plateArrangement';
+
+export const createObjectId = (): string =>
+  `obj-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+// Design bounds in source space, the same ones the generators place from for the job's mode
+export const loadSourceBounds = async (object: PlateObject): Promise<SourceBounds> => {
+  const { content, settings } = object;
+  if (object.fileType === 'image') {
+    const img = await loadImage(content);
+    return { minX: 0, minY: 0, maxX: IMAGE_PROCESS_WIDTH, maxY: Math.floor(IMAGE_PROCESS_WIDTH * (img.height / img.width)) };
+  }
+  if (!settings.isPlotterMode) return loadSVGFillGroups(content, svgCurveTolerance(settings));
+  const withFills = !settings.isLaserMode && settings.hatchFills;
+  return loadSVGOutlines(content, settings.svgPlotMode, withFills, svgCurveTolerance(settings));
+};
+
+// Bed area each object's footprint covers, by object id
+export const plateFootprints = async (
+  objects: PlateObject[],
+  printerSettings: PrinterSettings
+): Promise<Map<string, SourceBounds>> => {
+  const footprints = new Map<string, SourceBounds>();
+  for (const object of objects) {
+    footprints.set(object.id, placedFootprint(await loadSourceBounds(object), object.settings, printerSettings));
+  }
+  return footprints;
+};
+
+// Lay the objects out on the bed: each one is re-anchored to the bed center and offset to
+// its spot. Rotation, mirroring and scale stay as they are.
+export const arrangePlate = async (
+  objects: PlateObject[],
+  printerSettings: PrinterSettings,
+  mode: ArrangeMode,
+  spacing: number
+): Promise<PlateObject[]> => {
+  const footprints = await plateFootprints(objects, printerSettings);
+  const sizes = objects.map(o => {
+    const f = footprints.get(o.id)!;
+    return { width: f.maxX - f.minX, depth: f.maxY - f.minY };
+  });
+  const centers = arrangeItems(sizes, mode, spacing, printerSettings.bedWidth, printerSettings.bedDepth, printerSettings.bedMargin);
+  const round = (v: number) => Math.round(v * 100) / 100;
+  return objects.map((o, i) => ({
+    ...o,
+    settings: {
+      ...o.settings,
+      anchor: 'center',
+      offsetX: round(centers[i].x - printerSettings.bedWidth / 2),
+      offsetY: round(centers[i].y - printerSettings.bedDepth / 2)
+    }
+  }));
+};
+
+// `count` more of `object`, with the same source and settings
+export const copyObject = (object: PlateObject, count: number): PlateObject[] =>
+  Array.from({ length: Math.max(0, Math.floor(count)) }, () => ({ ...object, id: createObjectId(), settings: { ...object.settings } }));
+
+// `count` copies of `object` (one of `objects`) moved into free space on the bed, keeping
+// `spacing` from everything already there. Nothing already placed moves; fewer copies come
+// back when the bed fills up.
+export const placeCopies = async (
+  objects: PlateObject[],
+  object: PlateObject,
+  count: number,
+  printerSettings: PrinterSettings,
+  spacing: number
+): Promise<PlateObject[]> => {
+  const footprints = await plateFootprints(objects, printerSettings);
+  const occupied = Array.from(footprints.values());
+  const source = footprints.get(object.id) || placedFootprint(await loadSourceBounds(object), object.settings, printerSettings);
+  const size = { width: source.maxX - source.minX, depth: source.maxY - source.minY };
+  const round = (v: number) => Math.round(v * 100) / 100;
+
+  const placed: PlateObject[] = [];
+  for (const copy of copyObject(object, count)) {
+    const spot = findFreeSpot(size, occupied, spacing, printerSettings.bedWidth, printerSettings.bedDepth, printerSettings.bedMargin);
+    if (!spot) break;
+    // The footprint moves with the offset, whatever the anchor
+    const dx = spot.x - (source.minX + source.maxX) / 2;
+    const dy = spot.y - (source.minY + source.maxY) / 2;
+    placed.push({
+      ...copy,
+      settings: { ...copy.settings, offsetX: round(copy.settings.offsetX + dx), offsetY: round(copy.settings.offsetY + dy) }
+    });
+    occupied.push({ minX: spot.x - size.width / 2, minY: spot.y - size.depth / 2, maxX: spot.x + size.width / 2, maxY: spot.y + size.depth / 2 });
+  }
+  return placed;
+};
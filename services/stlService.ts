@@ -1,23 +1,36 @@
 import * as THREE from 'three';
-import { SVGLoader } from 'three/examples/jsm/loaders/SVGLoader';
 import { STLExporter } from 'three/examples/jsm/exporters/STLExporter';
-import { ModelSettings } from '../types';
-
-export const generateSTL = (svgContent: string, settings: ModelSettings): Blob => {
-  const loader = new SVGLoader();
-  const data = loader.parse(svgContent);
-  const shapes: THREE.Shape[] = [];
-
-  // flatMap paths to shapes
-  data.paths.forEach((path) => {
-    // SVGLoader.createShapes handles holes automatically if path directions are correct
-    const pathShapes = SVGLoader.createShapes(path);
-    pathShapes.forEach((s) => shapes.push(s));
-  });
+import { PrinterSettings, PlateObject } from '../types';
+import { vectorizeImage } from '../utils/imageHelper';
+import { loadSVGFillGroups, regionsToShapes, svgCurveTolerance } from '../utils/svgHelper';
+import { resolveFillRegions } from '../utils/polygonOffset';
+import { createPlacement, SourceBounds } from '../utils/placement';
+
+// Same fill-rule resolution the slicer uses, so the STL matches the printed part
+const loadSVGShapes = (svgContent: string, tolerance: number): { shapes: THREE.Shape[]; bounds: SourceBounds } => {
+  const { groups, minX, minY, maxX, maxY } = loadSVGFillGroups(svgContent, tolerance);
+  const shapes = regionsToShapes(resolveFillRegions(groups));
 
   if (shapes.length === 0) {
     throw new Error("No valid shapes found in SVG to generate STL.");
   }
+  return { shapes, bounds: { minX, minY, maxX, maxY } };
+};
+
+// One plate object as a solid, in bed coordinates
+const objectGeometry = async (object: PlateObject, printerSettings: PrinterSettings): Promise<THREE.BufferGeometry> => {
+  const { content, fileType, settings } = object;
+  // Raster images are vectorized first; their shapes are in processing-pixel space, which
+  // `scale` maps to mm exactly as it does for G-code.
+  let shapes: THREE.Shape[];
+  let bounds: SourceBounds;
+  if (fileType === 'image') {
+    const traced = await vectorizeImage(content, settings.traceThreshold);
+    shapes = traced.shapes;
+    bounds = { minX: 0, minY: 0, maxX: traced.width, maxY: traced.height };
+  } else {
+    ({ shapes, bounds } = loadSVGShapes(content, svgCurveTolerance(settings)));
+  }
 
   // Create 3D Geometry from Shapes
   // Depth corresponds to target height
@@ -27,37 +40,47 @@ export const generateSTL = (svgContent: string, settings: ModelSettings): Blob =
     steps: 1
   });
 
-  // Center the geometry
-  geometry.computeBoundingBox();
-  if (geometry.boundingBox) {
-      const center = new THREE.Vector3();
-      geometry.boundingBox.getCenter(center);
-      // Move center to (0,0,0) - Z is usually 0 to height, centering Z puts it at -h/2 to h/2
-      // Let's center XY, but keep Z base at 0? 
-      // Standard STL usually sits on the bed (Z=0).
-      // geometry.boundingBox.min.z is usually 0 if extruding forward.
-      geometry.translate(-center.x, -center.y, -geometry.boundingBox.min.z);
+  // Place every vertex exactly where the G-code puts it on the bed (scale, mirror, rotation,
+  // anchor, offset and the SVG Y-down flip), so a slicer that keeps positions lines them up.
+  // Z is left alone: 'targetHeight' is explicit and the extrusion already starts at 0.
+  const place = createPlacement(bounds, settings, printerSettings);
+  const position = geometry.getAttribute('position');
+  for (let i = 0; i < position.count; i++) {
+    const p = place({ x: position.getX(i), y: position.getY(i) });
+    position.setXY(i, p.x, p.y);
   }
+  position.needsUpdate = true;
 
-  // Apply Scale
-  // Note: settings.scale is XY scale. 
-  // Should we scale Z? Usually 'targetHeight' is explicit, so we don't scale Z by the XY scale factor.
-  geometry.scale(settings.scale, settings.scale, 1);
+  // Every mirror (the Y flip is one) turns the triangles inside out; an odd count needs the
+  // winding reversed so the normals point outwards again
+  const mirrors = 1 + (settings.mirrorX ? 1 : 0) + (settings.mirrorY ? 1 : 0);
+  if (mirrors % 2 === 1) {
+    // ExtrudeGeometry is non-indexed: every three vertices are a triangle
+    for (let i = 0; i < position.count; i += 3) {
+      const x = position.getX(i + 1), y = position.getY(i + 1), z = position.getZ(i + 1);
+      position.setXYZ(i + 1, position.getX(i + 2), position.getY(i + 2), position.getZ(i + 2));
+      position.setXYZ(i + 2, x, y, z);
+    }
+  }
 
-  // Flip Y (SVG is Y-down, 3D is Y-up)
-  // Scaling by -1 mirrors it. To fix normals we might need to be careful, but STLExporter usually handles the triangle output.
-  // However, scaling by -1 inverts winding order.
-  geometry.scale(1, -1, 1);
+  return geometry;
+};
 
-  // Create a mesh to pass to exporter
-  const mesh = new THREE.Mesh(geometry, new THREE.MeshStandardMaterial());
+// Every object on the plate in one STL, each where the G-code puts it
+export const generateSTL = async (objects: PlateObject[], printerSettings: PrinterSettings): Promise<Blob> => {
+  // Create a mesh per object to pass to exporter
+  const plate = new THREE.Group();
+  const material = new THREE.MeshStandardMaterial();
+  for (const object of objects) {
+    plate.add(new THREE.Mesh(await objectGeometry(object, printerSettings), material));
+  }
   
   // Ensure matrices are updated
-  mesh.updateMatrixWorld();
+  plate.updateMatrixWorld();
 
   const exporter = new STLExporter();
   // parse returns DataView (binary) or string (ascii)
-  const result = exporter.parse(mesh, { binary: true });
+  const result = exporter.parse(plate, { binary: true });
   
   return new Blob([result], { type: 'application/octet-stream' });
 };
\ No newline at end of file
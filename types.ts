@@ -1,30 +1,143 @@
+export type GCodeFlavorId = 'marlin' | 'klipper' | 'reprap' | 'grbl';
+
+export type PenLiftMode = 'zhop' | 'servo' | 'custom';
+
+export type PenChangeCommand = 'M0' | 'M600';
+
 export interface PrinterSettings {
+  gcodeFlavor: GCodeFlavorId; // Firmware dialect for start/end, heating and comments
   nozzleDiameter: number; // mm
   filamentDiameter: number; // mm
+  filamentDensity: number; // g/cm³, for the filament weight estimate (PLA ~1.24)
   layerHeight: number; // mm
   initialLayerHeight: number; // mm
   printSpeed: number; // mm/min
   travelSpeed: number; // mm/min
+  acceleration: number; // mm/s², for the time estimate
+  junctionDeviation: number; // mm, how fast the machine takes corners (Marlin-style), for the time estimate
   temperature: number; // Celsius
   bedTemperature: number; // Celsius
   retractionDistance: number; // mm
   retractionSpeed: number; // mm/min
+  retractionMinTravel: number; // mm, shorter travels don't retract
+  retractionExtraRestart: number; // mm, extra filament primed after a retraction
+  wipeDistance: number; // mm, 0 = no wipe before retracting
   extrusionMultiplier: number;
+  relativeExtrusion: boolean; // M83 (E per move) instead of M82 (absolute E)
+  arcFitting: boolean; // Replace runs of short moves along a circle with G2/G3
+  arcTolerance: number; // mm, how far fitted arcs may stray from the original points
   zOffset: number; // mm
   bedWidth: number; // mm
   bedDepth: number; // mm
+  maxHeight: number; // mm, highest Z the machine can print/draw at
+  bedMargin: number; // mm kept clear along the bed edges by "Fit to bed"
   zHop: number; // mm
+  penLift: PenLiftMode; // How the plotter raises/lowers the pen
+  penUpAngle: number; // Servo angle (M280 P0 S...) with the pen raised
+  penDownAngle: number; // Servo angle with the pen on the paper
+  penUpGCode: string; // Custom pen-up snippet (e.g. M107, M42 P.. S0)
+  penDownGCode: string; // Custom pen-down snippet
+  penDownDwell: number; // ms to wait after pen-down so the ink starts flowing
+  penChangeCommand: PenChangeCommand; // Pause used between pens: M0 (stop and wait) or M600 (change routine)
+  laserMaxS: number; // S value for 100% laser power (GRBL $30, usually 1000; Marlin 255)
+  laserDynamicPower: boolean; // M4 (power follows actual speed) instead of M3 (constant)
+}
+
+// Figures from walking a finished G-code program
+export interface GCodeEstimate {
+  time: number; // seconds
+  filamentLength: number; // mm of filament consumed (net of retractions)
+  filamentWeight: number; // g
+  penLifts: number; // Strokes drawn, i.e. pen-down/pen-up cycles (plotter)
+  drawDistance: number; // mm moved while extruding / drawing / burning
+  travelDistance: number; // mm moved without
 }
 
+// Toolpath extent checked against the machine: X/Y from every move (travel included, it can
+// hit the end stops too), Z from drawing moves only
+export interface BedCheck {
+  bounds: { min: Point3; max: Point3 } | null; // All moves
+  drawBounds: { min: Point3; max: Point3 } | null; // Extruding / plotting / burning moves
+  problems: string[]; // Why the job doesn't fit; empty when it does
+}
+
+// What a parsed G-code move does: moves without extrusion, drawing or burning are travel;
+// filament-only moves (retract / prime) are 'retract'
+export type MoveType = 'travel' | 'extrusion' | 'plot' | 'retract';
+
+export interface Point3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// One G0-G3 move from a G-code program, in mm and absolute machine coordinates
+export interface GCodeMove {
+  line: number; // 1-based line in the source program
+  command: 'G0' | 'G1' | 'G2' | 'G3';
+  type: MoveType;
+  feature: string | null; // Slicer feature from the last ";TYPE:" comment (e.g. WALL-OUTER)
+  pen: string | null; // Pen color from the last "PEN:#rrggbb" marker
+  from: Point3;
+  to: Point3;
+  arc: { center: Point; clockwise: boolean } | null; // Set for G2 (clockwise) / G3
+  extrusion: number; // mm of filament pushed (negative when retracting)
+  feedrate: number; // mm/min
+  layer: number; // Index into ParsedGCode.layerHeights
+  stopBefore: boolean; // Machine stands still before this move (start, homing, dwell, pause)
+}
+
+export interface ParsedGCode {
+  moves: GCodeMove[];
+  layerHeights: number[]; // Z of each layer, in print order
+  dwellTime: number; // seconds spent in G4 dwells
+  lineCount: number;
+}
+
+// What plotter/laser mode draws from an SVG: stroked paths, the outlines of filled areas, or both
+export type SVGPlotMode = 'strokes' | 'fills' | 'both';
+
 export type HatchStyle = 'cross' | 'diagonal' | 'horizontal' | 'vertical';
 
+export type InfillPattern = 'rectilinear' | 'grid' | 'triangles' | 'honeycomb' | 'concentric' | 'gyroid';
+
+// Bed point the design is placed against: its center, or one of its corners (front = Y 0)
+export type PlacementAnchor = 'center' | 'front-left' | 'front-right' | 'back-left' | 'back-right';
+
 export interface ModelSettings {
   targetHeight: number; // Total height in mm
   scale: number; // Percentage or scalar (1 = 100%)
+  anchor: PlacementAnchor; // Where on the bed the design's footprint sits before the offset
+  offsetX: number; // mm, moves the design from its anchor
+  offsetY: number; // mm
+  rotation: number; // Degrees, counter-clockwise seen from above
+  mirrorX: boolean; // Flip left/right (iron-on transfers, engraving the back of glass)
+  mirrorY: boolean; // Flip front/back
+  curveTolerance: number; // Max distance (mm, after scaling) between an SVG curve and the lines that replace it
   fillDensity: number; // 0-100 (Simplified for this app: line spacing)
   generateInfill: boolean;
+  infillPattern: InfillPattern;
+  wallCount: number; // Number of perimeters
+  infillOverlap: number; // % of nozzle width infill reaches into the innermost wall
+  topLayers: number; // Solid (100%) layers at the top, independent of fillDensity
+  bottomLayers: number; // Solid (100%) layers at the bottom
   isPlotterMode: boolean; // New: 2D Plotter Mode
   hatchStyle: HatchStyle; // New: Hatching pattern for images in plotter mode
+  svgPlotMode: SVGPlotMode; // Which SVG paths to draw in plotter/laser mode
+  hatchFills: boolean; // Plotter: hatch the inside of filled SVG paths with hatchStyle
+  hatchByLightness: boolean; // Lighter fill colors get sparser hatching (black = solid)
+  penOrder: string[]; // SVG colors (#rrggbb) in the order their pens are used; unlisted colors go last
+  skippedPens: string[]; // SVG colors not plotted at all
+  isLaserMode: boolean; // Laser engraver (only together with isPlotterMode: single layer, no heating)
+  laserMinPower: number; // % power for the lightest non-white pixel when rastering
+  laserMaxPower: number; // % power for black pixels
+  laserRasterSpeed: number; // mm/min
+  laserOverscan: number; // mm run-in/run-out past each raster line so the head is at speed while burning
+  laserBidirectional: boolean; // Raster alternate lines right-to-left instead of returning each time
+  laserCutPower: number; // % power for SVG outlines
+  laserCutSpeed: number; // mm/min
+  laserPasses: number; // Repeats of each SVG outline
+  traceThreshold: number; // 0-255, pixels darker than this are solid when tracing images
 }
 
 export interface SlicerState {
@@ -45,4 +158,57 @@ export interface Segment {
   p2: Point;
 }
 
-export type FileType = 'svg' | 'image';
\ No newline at end of file
+// Ordered list of points drawn as one continuous stroke
+export type Polyline = Point[];
+
+// One drawing move after arc fitting: a straight line, or a circular arc (G2 clockwise / G3)
+export type PathMove =
+  | { kind: 'line'; to: Point }
+  | { kind: 'arc'; to: Point; center: Point; clockwise: boolean };
+
+// Closed ring (last point connects to first) with the filled area on its left:
+// outer boundaries have positive signed area, holes negative.
+export type Polygon = Point[];
+
+// One connected filled area
+export interface Region {
+  outer: Polygon;
+  holes: Polygon[];
+}
+
+export type FillRule = 'nonzero' | 'evenodd';
+
+// Closed rings (any orientation) filled together under one fill rule,
+// like the subpaths of a single SVG path
+export interface FillGroup {
+  rings: Polygon[];
+  fillRule: FillRule;
+}
+
+// Everything drawn with one pen: the segments of all SVG paths sharing a color (#rrggbb)
+export interface PenGroup {
+  color: string;
+  segments: Segment[];
+}
+
+// Closed loop traced from a raster image (implicitly closed, last point connects to first)
+export interface Contour {
+  points: Point[];
+  isHole: boolean;
+}
+
+// 'gcode' is an existing program opened for preview; it is shown as-is, never sliced
+export type FileType = 'svg' | 'image' | 'gcode';
+
+// One design on the build plate: its own source file, placement and model settings.
+// Job-wide modes (plotter / laser) are kept the same on every object of a plate.
+export interface PlateObject {
+  id: string;
+  name: string; // Source file name
+  fileType: FileType; // 'svg' or 'image'; G-code files are previewed, never placed
+  content: string; // SVG string or DataURL
+  settings: ModelSettings;
+}
+
+// How "Arrange" lays objects out: equal cells in rows, or packed by size
+export type ArrangeMode = 'grid' | 'pack';
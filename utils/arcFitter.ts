@@ -0,0 +1,114 @@
+import { Point, Polyline, PathMove, PrinterSettings } from '../types';
+
+// Fewest points (including both ends) worth replacing with an arc
+const MIN_ARC_POINTS = 4;
+// Longest run scanned for one arc, keeps fitting linear-ish on huge polylines
+const MAX_ARC_POINTS = 400;
+// Larger circles are effectively straight lines; firmware handles those badly
+const MAX_RADIUS = 1000;
+// Stay clear of a full turn: start == end would read as a complete circle
+const MAX_SWEEP = Math.PI * 1.9;
+
+const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+// Circle through three points, or null if they are (nearly) collinear
+const circleThrough = (a: Point, b: Point, c: Point): { center: Point; radius: number } | null => {
+  const d = 2 * (a.x * (b.y - c.y) + b.x * (c.y - a.y) + c.x * (a.y - b.y));
+  if (Math.abs(d) < 1e-12) return null;
+  const a2 = a.x * a.x + a.y * a.y;
+  const b2 = b.x * b.x + b.y * b.y;
+  const c2 = c.x * c.x + c.y * c.y;
+  const center = {
+    x: (a2 * (b.y - c.y) + b2 * (c.y - a.y) + c2 * (a.y - b.y)) / d,
+    y: (a2 * (c.x - b.x) + b2 * (a.x - c.x) + c2 * (b.x - a.x)) / d
+  };
+  return { center, radius: Math.hypot(a.x - center.x, a.y - center.y) };
+};
+
+// Does line[from..to] follow one circular arc within `tolerance`? Every point must sit on
+// the circle and the points must keep turning the same way. Chords are not checked: the
+// polyline is usually a flattened curve, so the arc is closer to the original than the chords.
+const fitRun = (line: Polyline, from: number, to: number, tolerance: number) => {
+  const circle = circleThrough(line[from], line[Math.floor((from + to) / 2)], line[to]);
+  if (!circle || circle.radius > MAX_RADIUS) return null;
+  const { center, radius } = circle;
+
+  const turn = Math.sign(cross(line[from], line[from + 1], line[from + 2]));
+  if (turn === 0) return null;
+  let sweep = 0;
+
+  for (let i = from + 1; i <= to; i++) {
+    const p = line[i], prev = line[i - 1];
+    if (Math.abs(Math.hypot(p.x - center.x, p.y - center.y) - radius) > tolerance) return null;
+    if (i < to && Math.sign(cross(prev, p, line[i + 1])) !== turn) return null;
+
+    const a0 = Math.atan2(prev.y - center.y, prev.x - center.x);
+    const a1 = Math.atan2(p.y - center.y, p.x - center.x);
+    let step = a1 - a0;
+    if (step > Math.PI) step -= Math.PI * 2;
+    if (step < -Math.PI) step += Math.PI * 2;
+    if (Math.sign(step) !== turn) return null;
+    sweep += Math.abs(step);
+  }
+
+  if (sweep > MAX_SWEEP) return null;
+  return { center, clockwise: turn < 0 };
+};
+
+// Replace runs of points along a circular arc with arc moves (G2/G3), leaving everything
+// else as straight moves. The first point of the polyline is the start, not a move.
+export const fitArcs = (line: Polyline, tolerance: number): PathMove[] => {
+  const moves: PathMove[] = [];
+  let i = 0;
+
+  while (i < line.length - 1) {
+    let best: { to: number; center: Point; clockwise: boolean } | null = null;
+    const limit = Math.min(line.length - 1, i + MAX_ARC_POINTS - 1);
+
+    for (let to = i + MIN_ARC_POINTS - 1; to <= limit; to++) {
+      // Grow the run until it stops fitting; if even the shortest run fails, no arc starts here
+      const fit = fitRun(line, i, to, tolerance);
+      if (!fit) break;
+      best = { to, ...fit };
+    }
+
+    if (best) {
+      moves.push({ kind: 'arc', to: line[best.to], center: best.center, clockwise: best.clockwise });
+      i = best.to;
+    } else {
+      moves.push({ kind: 'line', to: line[i + 1] });
+      i++;
+    }
+  }
+
+  return moves;
+};
+
+// Arc length from `from` to `to` around `center`, for extrusion amounts
+export const arcLength = (from: Point, to: Point, center: Point, clockwise: boolean): number => {
+  const radius = Math.hypot(from.x - center.x, from.y - center.y);
+  const a0 = Math.atan2(from.y - center.y, from.x - center.x);
+  const a1 = Math.atan2(to.y - center.y, to.x - center.x);
+  let sweep = clockwise ? a0 - a1 : a1 - a0;
+  while (sweep <= 0) sweep += Math.PI * 2;
+  return sweep * radius;
+};
+
+// Drawing moves for a polyline: fitted arcs when a tolerance is given, otherwise one line per point
+export const polylineMoves = (line: Polyline, arcTolerance: number | null): PathMove[] =>
+  arcTolerance !== null && arcTolerance > 0
+    ? fitArcs(line, arcTolerance)
+    : line.slice(1).map(to => ({ kind: 'line' as const, to }));
+
+// "G1 X.. Y.." or "G2/G3 X.. Y.. I.. J.." for a move starting at `from` (no feedrate / E)
+export const formatMove = (from: Point, move: PathMove): string => {
+  const xy = `X${move.to.x.toFixed(3)} Y${move.to.y.toFixed(3)}`;
+  if (move.kind === 'line') return `G1 ${xy}`;
+  const i = move.center.x - from.x;
+  const j = move.center.y - from.y;
+  return `${move.clockwise ? 'G2' : 'G3'} ${xy} I${i.toFixed(3)} J${j.toFixed(3)}`;
+};
+
+// Arc tolerance for polylineMoves, or null when arc fitting is off
+export const arcToleranceOf = (printerSettings: PrinterSettings): number | null =>
+  printerSettings.arcFitting ? printerSettings.arcTolerance : null;
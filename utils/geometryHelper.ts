@@ -1,8 +1,78 @@
-import { Point, Segment } from '../types';
+import { Point, Segment, Polygon } from '../types';
 import * as THREE from 'three';
 
-// Convert Three.js Shape to a set of closed loops (polygons) represented as segments
-export const shapeToSegments = (shape: THREE.Shape): Segment[] => {
+// Every curve is split at least this many times (2^n pieces), so S-bends and full ellipses
+// whose midpoint happens to land on the chord still get subdivided
+const MIN_CURVE_DEPTH = 2;
+// Hard cap on subdivision (2^n pieces per curve) in case of a tiny tolerance
+const MAX_CURVE_DEPTH = 12;
+
+// A path curve as flattening reads it; line curves say so and stay single segments
+interface PathCurve extends THREE.Curve<THREE.Vector2> {
+  isLineCurve?: boolean;
+}
+
+const distanceToSegment = (p: THREE.Vector2, a: THREE.Vector2, b: THREE.Vector2): number => {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const lenSq = dx * dx + dy * dy;
+  if (lenSq === 0) return p.distanceTo(a);
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lenSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+// Points along one curve (excluding its start), bisecting until each chord is within `tolerance`
+const flattenCurve = (
+  curve: THREE.Curve<THREE.Vector2>,
+  t0: number, p0: THREE.Vector2,
+  t1: number, p1: THREE.Vector2,
+  tolerance: number, depth: number, out: THREE.Vector2[]
+) => {
+  const tm = (t0 + t1) / 2;
+  const pm = curve.getPoint(tm);
+  const flatEnough = depth >= MIN_CURVE_DEPTH && distanceToSegment(pm, p0, p1) <= tolerance;
+  if (flatEnough || depth >= MAX_CURVE_DEPTH) {
+    out.push(p1);
+    return;
+  }
+  flattenCurve(curve, t0, p0, tm, pm, tolerance, depth + 1, out);
+  flattenCurve(curve, tm, pm, t1, p1, tolerance, depth + 1, out);
+};
+
+// Like CurvePath.getPoints(), but curves are subdivided adaptively so no chord strays more
+// than `tolerance` (in the path's own units) from the curve. Straight lines stay single segments.
+// A tolerance <= 0 falls back to three's fixed per-curve resolution.
+export const flattenPath = (path: THREE.CurvePath<THREE.Vector2>, tolerance: number): THREE.Vector2[] => {
+  if (!(tolerance > 0)) return path.getPoints();
+
+  const points: THREE.Vector2[] = [];
+  const push = (p: THREE.Vector2) => {
+    // Same as getPoints(): no consecutive duplicates
+    if (points.length > 0 && points[points.length - 1].equals(p)) return;
+    points.push(p);
+  };
+
+  path.curves.forEach((curve: PathCurve) => {
+    const start = curve.getPoint(0);
+    const end = curve.getPoint(1);
+    push(start);
+    if (curve.isLineCurve) {
+      push(end);
+      return;
+    }
+    const pts: THREE.Vector2[] = [];
+    flattenCurve(curve, 0, start, 1, end, tolerance, 0, pts);
+    pts.forEach(push);
+  });
+
+  if (path.autoClose && points.length > 1 && !points[points.length - 1].equals(points[0])) {
+    points.push(points[0]);
+  }
+  return points;
+};
+
+// Convert Three.js Shape to a set of closed loops (polygons) represented as segments.
+// `tolerance` is the max chord deviation for curves, in the shape's units (see flattenPath).
+export const shapeToSegments = (shape: THREE.Shape, tolerance: number = 0): Segment[] => {
   const segments: Segment[] = [];
   
   // Helper to convert Path points to Segments
@@ -17,18 +87,29 @@ export const shapeToSegments = (shape: THREE.Shape): Segment[] => {
     }
   };
 
-  extractSegments(shape.getPoints());
+  extractSegments(flattenPath(shape, tolerance));
 
   // Handle holes
   if (shape.holes && shape.holes.length > 0) {
     shape.holes.forEach((holePath) => {
-      extractSegments(holePath.getPoints());
+      extractSegments(flattenPath(holePath, tolerance));
     });
   }
 
   return segments;
 };
 
+// Convert closed polygons (e.g. offset results) into their edge segments
+export const polygonsToSegments = (polygons: Polygon[]): Segment[] => {
+  const segments: Segment[] = [];
+  polygons.forEach((poly) => {
+    for (let i = 0; i < poly.length; i++) {
+      segments.push({ p1: poly[i], p2: poly[(i + 1) % poly.length] });
+    }
+  });
+  return segments;
+};
+
 // Calculate intersections of a horizontal line (y = constant) with polygon segments
 export const getScanlineIntersections = (y: number, segments: Segment[]): number[] => {
   const intersections: number[] = [];
@@ -1,4 +1,8 @@
-import { Segment, Point } from '../types';
+import * as THREE from 'three';
+import { Segment, Point, Contour } from '../types';
+
+// Max resolution for processing to keep it fast
+export const IMAGE_PROCESS_WIDTH = 512;
 
 export const loadImage = (src: string): Promise<HTMLImageElement> => {
   return new Promise((resolve, reject) => {
@@ -106,52 +110,219 @@ export const generateHatchFromImage = (
   return segments;
 };
 
-// Simple Square Tracing for finding a single contour at 50% threshold
-// Returns a list of segments representing the perimeter
-export const traceContours = (imageData: ImageData, width: number, height: number): Segment[] => {
-    const segments: Segment[] = [];
-    // Threshold map
-    const grid: boolean[][] = [];
-    for(let y=0; y<height; y++) {
-        const row: boolean[] = [];
-        for(let x=0; x<width; x++) {
+// Marching squares at sub-pixel accuracy.
+// Samples sit at pixel centres; the image is padded with a light border so every loop closes.
+// Each emitted edge keeps dark on the same side, so a loop's signed area tells
+// outer boundaries (positive) from holes (negative) without any nesting tests.
+export const traceContours = (
+  imageData: ImageData,
+  width: number,
+  height: number,
+  threshold: number = 128 // 0-255 (Pixels darker than this are solid)
+): Contour[] => {
+    const { data } = imageData;
+    const cols = width + 2;   // padded sample grid, sample (i,j) -> pixel (i-1, j-1)
+    const rows = height + 2;
+
+    const lum = new Float32Array(cols * rows).fill(255);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
             const idx = (y * width + x) * 4;
-            const avg = (imageData.data[idx] + imageData.data[idx+1] + imageData.data[idx+2]) / 3;
-            row.push(avg < 128); // True if Dark (Solid)
+            lum[(y + 1) * cols + (x + 1)] = 0.299 * data[idx] + 0.587 * data[idx+1] + 0.114 * data[idx+2];
         }
-        grid.push(row);
     }
+    const isDark = (v: number) => v < threshold;
 
-    // Horizontal edges
-    for(let y=0; y<height-1; y++) {
-        for(let x=0; x<width; x++) {
-            if(grid[y][x] !== grid[y+1][x]) {
-                segments.push({
-                    p1: { x: x, y: y+1 },
-                    p2: { x: x+1, y: y+1 }
-                });
+    // Sample (i,j) in padded grid -> image coordinates of that pixel's centre
+    const samplePoint = (i: number, j: number): Point => ({ x: i - 0.5, y: j - 0.5 });
+
+    // Point where the threshold crosses the edge between two samples
+    const crossing = (i0: number, j0: number, i1: number, j1: number): Point => {
+        const v0 = lum[j0 * cols + i0];
+        const v1 = lum[j1 * cols + i1];
+        const t = v1 === v0 ? 0.5 : (threshold - v0) / (v1 - v0);
+        const a = samplePoint(i0, j0);
+        const b = samplePoint(i1, j1);
+        return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+    };
+
+    // Edge ids: horizontal edge right of sample (i,j) = j*cols+i, vertical edge below it = offset + j*cols+i
+    const vOffset = cols * rows;
+    const edgePoints = new Map<number, Point>();
+    const edgePoint = (edge: number): Point => {
+        let p = edgePoints.get(edge);
+        if (!p) {
+            if (edge < vOffset) {
+                const i = edge % cols, j = Math.floor(edge / cols);
+                p = crossing(i, j, i + 1, j);
+            } else {
+                const e = edge - vOffset;
+                const i = e % cols, j = Math.floor(e / cols);
+                p = crossing(i, j, i, j + 1);
             }
+            edgePoints.set(edge, p);
         }
-    }
-    // Vertical edges
-    for(let x=0; x<width-1; x++) {
-        for(let y=0; y<height; y++) {
-            if(grid[y][x] !== grid[y][x+1]) {
-                segments.push({
-                    p1: { x: x+1, y: y },
-                    p2: { x: x+1, y: y+1 }
+        return p;
+    };
+
+    // Directed edge-to-edge links: next[startEdge] = endEdge
+    const next = new Map<number, number>();
+
+    for (let j = 0; j < rows - 1; j++) {
+        for (let i = 0; i < cols - 1; i++) {
+            const tl = isDark(lum[j * cols + i]);
+            const tr = isDark(lum[j * cols + i + 1]);
+            const br = isDark(lum[(j + 1) * cols + i + 1]);
+            const bl = isDark(lum[(j + 1) * cols + i]);
+            const caseIndex = (tl ? 8 : 0) | (tr ? 4 : 0) | (br ? 2 : 0) | (bl ? 1 : 0);
+            if (caseIndex === 0 || caseIndex === 15) continue;
+
+            const top = j * cols + i;
+            const bottom = (j + 1) * cols + i;
+            const left = vOffset + j * cols + i;
+            const right = vOffset + j * cols + i + 1;
+
+            // Corners as [cornerX, cornerY, isDark, adjacent edges]
+            const corners: [number, number, boolean, number, number][] = [
+                [i, j, tl, top, left],
+                [i + 1, j, tr, top, right],
+                [i + 1, j + 1, br, bottom, right],
+                [i, j + 1, bl, bottom, left],
+            ];
+
+            // Segments that cut off a single corner, or a straight cut across the cell
+            const cuts: [number, number, number][] = []; // [edgeA, edgeB, reference corner]
+            const darkCount = (tl ? 1 : 0) + (tr ? 1 : 0) + (br ? 1 : 0) + (bl ? 1 : 0);
+
+            if (caseIndex === 5 || caseIndex === 10) {
+                // Saddle: the cell centre decides whether the dark corners connect
+                const centre = (lum[j * cols + i] + lum[j * cols + i + 1] + lum[(j + 1) * cols + i + 1] + lum[(j + 1) * cols + i]) / 4;
+                const connectDark = isDark(centre);
+                corners.forEach((c, k) => {
+                    if (c[2] !== connectDark) cuts.push([c[3], c[4], k]);
                 });
+            } else if (darkCount === 1 || darkCount === 3) {
+                const lone = corners.findIndex(c => c[2] === (darkCount === 1));
+                cuts.push([corners[lone][3], corners[lone][4], lone]);
+            } else {
+                // Two adjacent dark corners: straight cut
+                const crossed = [top, right, bottom, left].filter(edge => {
+                    if (edge === top) return tl !== tr;
+                    if (edge === right) return tr !== br;
+                    if (edge === bottom) return bl !== br;
+                    return tl !== bl;
+                });
+                const refCorner = corners.findIndex(c => c[2]);
+                cuts.push([crossed[0], crossed[1], refCorner]);
+            }
+
+            for (const [edgeA, edgeB, k] of cuts) {
+                const a = edgePoint(edgeA);
+                const b = edgePoint(edgeB);
+                const c = samplePoint(corners[k][0], corners[k][1]);
+                const cross = (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+                // Dark always on the positive-cross side
+                const darkOnPositive = (cross > 0) === corners[k][2];
+                if (darkOnPositive) next.set(edgeA, edgeB);
+                else next.set(edgeB, edgeA);
             }
         }
     }
 
-    // Optimize: Join segments (Greedy)
-    // This simple implementation produces disjoint segments which is fine for visual 
-    // but GCode generation works better with ordered paths. 
-    // The main GCode generator logic handles segments for infill, but for perimeters it expects shapes.
-    // However, our generator handles segments for infill logic but perimeters logic uses THREE.Shape.
-    // For Raster->Standard Mode, we'll return raw segments and treat them as "walls" (G1 moves) directly 
-    // rather than trying to reconstruct complex THREE.Shapes.
-    
-    return segments;
-}
\ No newline at end of file
+    // Walk the links into closed loops
+    const contours: Contour[] = [];
+    const visited = new Set<number>();
+    for (const startEdge of next.keys()) {
+        if (visited.has(startEdge)) continue;
+        const points: Point[] = [];
+        let edge: number | undefined = startEdge;
+        while (edge !== undefined && !visited.has(edge)) {
+            visited.add(edge);
+            points.push(edgePoint(edge));
+            edge = next.get(edge);
+        }
+        const loop = simplifyLoop(points, 0.05);
+        if (loop.length < 3) continue;
+        contours.push({ points: loop, isHole: polygonArea(loop) < 0 });
+    }
+
+    return contours;
+};
+
+// Signed shoelace area; positive when the interior is on the positive-cross side.
+const polygonArea = (points: Point[]): number => {
+    let area = 0;
+    for (let i = 0; i < points.length; i++) {
+        const a = points[i];
+        const b = points[(i + 1) % points.length];
+        area += a.x * b.y - b.x * a.y;
+    }
+    return area / 2;
+};
+
+// Drop points that lie (within tolerance px) on the line through their neighbours.
+// Marching squares emits one point per cell, so straight runs collapse a lot.
+const simplifyLoop = (points: Point[], tolerance: number): Point[] => {
+    const out: Point[] = [];
+    for (let i = 0; i < points.length; i++) {
+        const prev = out.length > 0 ? out[out.length - 1] : points[points.length - 1];
+        const p = points[i];
+        const nxt = points[(i + 1) % points.length];
+        const dx = nxt.x - prev.x;
+        const dy = nxt.y - prev.y;
+        const len = Math.sqrt(dx * dx + dy * dy);
+        const dev = len > 0 ? Math.abs(dx * (p.y - prev.y) - dy * (p.x - prev.x)) / len : 0;
+        if (dev > tolerance) out.push(p);
+    }
+    return out;
+};
+
+const pointInPolygon = (p: Point, poly: Point[]): boolean => {
+    let inside = false;
+    for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+        const a = poly[i], b = poly[j];
+        if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+// Group traced loops into THREE.Shapes: each hole goes to the smallest outer loop containing it.
+export const contoursToShapes = (contours: Contour[]): THREE.Shape[] => {
+    const outers = contours
+        .filter(c => !c.isHole)
+        .map(c => ({ contour: c, area: Math.abs(polygonArea(c.points)), shape: new THREE.Shape(c.points.map(p => new THREE.Vector2(p.x, p.y))) }));
+
+    contours.filter(c => c.isHole).forEach(hole => {
+        let owner: typeof outers[number] | null = null;
+        for (const outer of outers) {
+            if (outer.area < Math.abs(polygonArea(hole.points))) continue;
+            if (!pointInPolygon(hole.points[0], outer.contour.points)) continue;
+            if (!owner || outer.area < owner.area) owner = outer;
+        }
+        if (owner) owner.shape.holes.push(new THREE.Path(hole.points.map(p => new THREE.Vector2(p.x, p.y))));
+    });
+
+    return outers.map(o => o.shape);
+};
+
+// Load a raster image and vectorize it into shapes with holes, in processing-pixel space
+// (Y down, like SVG), so it can go through the same slicing/extrusion path as SVG shapes.
+export const vectorizeImage = async (
+  src: string,
+  threshold: number
+): Promise<{ contours: Contour[]; shapes: THREE.Shape[]; width: number; height: number }> => {
+    const img = await loadImage(src);
+    const width = IMAGE_PROCESS_WIDTH;
+    const height = Math.floor(width * (img.height / img.width));
+    const imageData = getImageData(img, width, height);
+    const contours = traceContours(imageData, width, height, threshold);
+    const shapes = contoursToShapes(contours);
+
+    if (shapes.length === 0) {
+        throw new Error("No solid regions found in image. Try adjusting the trace threshold.");
+    }
+
+    return { contours, shapes, width, height };
+};
@@ -0,0 +1,229 @@
+import { Point, Polygon, Polyline, InfillPattern, HatchStyle } from '../types';
+import { getScanlineIntersections, polygonsToSegments } from './geometryHelper';
+import { offsetPolygons } from './polygonOffset';
+
+const rotate = (p: Point, cos: number, sin: number): Point => ({
+  x: p.x * cos - p.y * sin,
+  y: p.x * sin + p.y * cos
+});
+
+const boundsOf = (polygons: Polygon[]) => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  polygons.forEach(poly => poly.forEach(p => {
+    if (p.x < minX) minX = p.x; if (p.x > maxX) maxX = p.x;
+    if (p.y < minY) minY = p.y; if (p.y > maxY) maxY = p.y;
+  }));
+  return { minX, minY, maxX, maxY };
+};
+
+// Parallel lines at `angleDeg`, `spacing` apart, clipped to the boundary.
+// The boundary is rotated so the lines become horizontal scanlines, then results are rotated back.
+// Lines are anchored to the origin (not the part) so they stack consistently across layers.
+export const clipParallelLines = (
+  boundary: Polygon[],
+  angleDeg: number,
+  spacing: number,
+  offset: number = 0
+): Polyline[] => {
+  const rad = (angleDeg * Math.PI) / 180;
+  const cos = Math.cos(rad), sin = Math.sin(rad);
+  const rotated = boundary.map(poly => poly.map(p => rotate(p, cos, -sin)));
+  const segments = polygonsToSegments(rotated);
+  const { minY, maxY } = boundsOf(rotated);
+
+  const lines: Polyline[] = [];
+  const first = Math.ceil((minY - offset) / spacing) * spacing + offset;
+  for (let y = first; y < maxY; y += spacing) {
+    const xs = getScanlineIntersections(y, segments);
+    for (let k = 0; k < xs.length - 1; k += 2) {
+      lines.push([rotate({ x: xs[k], y }, cos, sin), rotate({ x: xs[k + 1], y }, cos, sin)]);
+    }
+  }
+  return lines;
+};
+
+// Even-odd inside test against all boundary rings
+const insideBoundary = (p: Point, boundary: Polygon[]): boolean => {
+  let inside = false;
+  for (const poly of boundary) {
+    for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+      const a = poly[i], b = poly[j];
+      if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+};
+
+// Clip an arbitrary open polyline to the boundary, keeping the inside runs as separate polylines
+export const clipPolyline = (line: Polyline, boundary: Polygon[]): Polyline[] => {
+  const edges = polygonsToSegments(boundary);
+  const result: Polyline[] = [];
+  let current: Polyline | null = null;
+
+  for (let i = 0; i < line.length - 1; i++) {
+    const a = line[i], b = line[i + 1];
+    const dx = b.x - a.x, dy = b.y - a.y;
+
+    // Parameters where this piece crosses the boundary
+    const ts = [0, 1];
+    for (const e of edges) {
+      const ex = e.p2.x - e.p1.x, ey = e.p2.y - e.p1.y;
+      const denom = dx * ey - dy * ex;
+      if (Math.abs(denom) < 1e-12) continue;
+      const t = ((e.p1.x - a.x) * ey - (e.p1.y - a.y) * ex) / denom;
+      const u = ((e.p1.x - a.x) * dy - (e.p1.y - a.y) * dx) / denom;
+      if (t > 0 && t < 1 && u >= 0 && u <= 1) ts.push(t);
+    }
+    ts.sort((l, r) => l - r);
+
+    for (let k = 0; k < ts.length - 1; k++) {
+      const t0 = ts[k], t1 = ts[k + 1];
+      if (t1 - t0 < 1e-9) continue;
+      const mid = { x: a.x + dx * (t0 + t1) / 2, y: a.y + dy * (t0 + t1) / 2 };
+      const p0 = { x: a.x + dx * t0, y: a.y + dy * t0 };
+      const p1 = { x: a.x + dx * t1, y: a.y + dy * t1 };
+
+      if (insideBoundary(mid, boundary)) {
+        if (!current) {
+          current = [p0];
+          result.push(current);
+        }
+        current.push(p1);
+      } else {
+        current = null;
+      }
+    }
+  }
+
+  return result;
+};
+
+// Rows of half-hexagon zigzags; each row is the previous one shifted by 1.5 sides in X
+// and one hexagon half-height in Y, so their flats meet and close the cells.
+const honeycombLines = (boundary: Polygon[], side: number): Polyline[] => {
+  const { minX, minY, maxX, maxY } = boundsOf(boundary);
+  const h = side * Math.sqrt(3) / 2;
+  const period = 3 * side;
+  const lines: Polyline[] = [];
+
+  const firstRow = Math.floor(minY / h) - 1;
+  const lastRow = Math.ceil(maxY / h);
+  for (let row = firstRow; row <= lastRow; row++) {
+    const y0 = row * h;
+    const shift = (row & 1) * 1.5 * side;
+    const startX = Math.floor((minX - shift) / period) * period + shift - period;
+    const zigzag: Polyline = [];
+    for (let x = startX; x <= maxX + period; x += period) {
+      zigzag.push(
+        { x, y: y0 },
+        { x: x + side, y: y0 },
+        { x: x + 1.5 * side, y: y0 + h },
+        { x: x + 2.5 * side, y: y0 + h }
+      );
+    }
+    lines.push(...clipPolyline(zigzag, boundary));
+  }
+  return lines;
+};
+
+// Closed loops stepping inward from the boundary until nothing is left
+const concentricLines = (boundary: Polygon[], spacing: number): Polyline[] => {
+  const lines: Polyline[] = [];
+  let rings = boundary;
+  while (rings.length > 0) {
+    rings.forEach(ring => lines.push([...ring, ring[0]]));
+    rings = offsetPolygons(rings, -spacing);
+  }
+  return lines;
+};
+
+// 2D slice of the gyroid sin(x)cos(y) + sin(y)cos(z) + sin(z)cos(x) = 0 at height z.
+// For fixed x and z this is A·cos(y) + B·sin(y) = C, solved as y = φ ± acos(C/R).
+const gyroidLines = (boundary: Polygon[], period: number, z: number): Polyline[] => {
+  const { minX, minY, maxX, maxY } = boundsOf(boundary);
+  const k = (2 * Math.PI) / period;
+  const zs = z * k;
+  const step = period / 12;
+  const lines: Polyline[] = [];
+
+  const kMin = Math.floor(minY / period) - 1;
+  const kMax = Math.ceil(maxY / period) + 1;
+
+  for (const sign of [1, -1]) {
+    for (let n = kMin; n <= kMax; n++) {
+      let current: Polyline = [];
+      for (let x = minX - step; x <= maxX + step; x += step) {
+        const xs = x * k;
+        const A = Math.sin(xs);
+        const B = Math.cos(zs);
+        const C = -Math.sin(zs) * Math.cos(xs);
+        const R = Math.sqrt(A * A + B * B);
+        if (R < 1e-9 || Math.abs(C) > R) {
+          if (current.length > 1) lines.push(current);
+          current = [];
+          continue;
+        }
+        const y = (Math.atan2(B, A) + sign * Math.acos(C / R) + 2 * Math.PI * n) / k;
+        current.push({ x, y });
+      }
+      if (current.length > 1) lines.push(current);
+    }
+  }
+
+  return lines.flatMap(line => clipPolyline(line, boundary));
+};
+
+// Infill toolpaths for one layer. `spacing` is the rectilinear line distance for the wanted
+// density; multi-direction patterns widen it so every pattern uses about the same material.
+export const generateInfillPaths = (
+  boundary: Polygon[],
+  pattern: InfillPattern,
+  spacing: number,
+  layerIndex: number,
+  z: number
+): Polyline[] => {
+  if (boundary.length === 0) return [];
+  const alternate = layerIndex % 2 === 1;
+
+  switch (pattern) {
+    case 'grid':
+      return [
+        ...clipParallelLines(boundary, 45, spacing * 2),
+        ...clipParallelLines(boundary, -45, spacing * 2)
+      ];
+    case 'triangles':
+      return [
+        ...clipParallelLines(boundary, 0, spacing * 3),
+        ...clipParallelLines(boundary, 60, spacing * 3),
+        ...clipParallelLines(boundary, 120, spacing * 3)
+      ];
+    case 'honeycomb':
+      return honeycombLines(boundary, spacing * 1.155);
+    case 'concentric':
+      return concentricLines(boundary, spacing);
+    case 'gyroid':
+      return gyroidLines(boundary, spacing * 2, z);
+    case 'rectilinear':
+    default:
+      return clipParallelLines(boundary, alternate ? -45 : 45, spacing);
+  }
+};
+
+// Plotter hatching of a filled area, clipped exactly to its outline and holes.
+// `spacing` is the gap between lines in each direction.
+export const generateHatchPaths = (boundary: Polygon[], style: HatchStyle, spacing: number): Polyline[] => {
+  if (boundary.length === 0) return [];
+  switch (style) {
+    case 'cross':
+      return [...clipParallelLines(boundary, 45, spacing), ...clipParallelLines(boundary, -45, spacing)];
+    case 'horizontal':
+      return clipParallelLines(boundary, 0, spacing);
+    case 'vertical':
+      return clipParallelLines(boundary, 90, spacing);
+    case 'diagonal':
+    default:
+      return clipParallelLines(boundary, 45, spacing);
+  }
+};
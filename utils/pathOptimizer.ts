@@ -0,0 +1,217 @@
+import { Point, Segment, Polyline } from '../types';
+
+const distance = (a: Point, b: Point): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+const first = (line: Polyline): Point => line[0];
+const last = (line: Polyline): Point => line[line.length - 1];
+const reversed = (line: Polyline): Polyline => line.slice().reverse();
+
+// Total pen-up (non-drawing) distance when visiting polylines in the given order,
+// starting from `start`.
+export const calculateTravelDistance = (lines: Polyline[], start: Point): number => {
+  let total = 0;
+  let current = start;
+  for (const line of lines) {
+    if (line.length === 0) continue;
+    total += distance(current, first(line));
+    current = last(line);
+  }
+  return total;
+};
+
+// Merge segments that share endpoints (within `tolerance`) into continuous strokes.
+// Segments may be joined head-to-tail in either direction.
+export const chainSegments = (segments: Segment[], tolerance: number = 0.01): Polyline[] => {
+  const cellSize = Math.max(tolerance, 1e-9);
+  const buckets = new Map<string, number[]>();
+  const keyOf = (gx: number, gy: number) => `${gx},${gy}`;
+
+  // Each segment registers both endpoints: endpoint id = index * 2 + (0 for p1, 1 for p2)
+  const endpoint = (id: number): Point => id % 2 === 0 ? segments[id >> 1].p1 : segments[id >> 1].p2;
+
+  segments.forEach((s, i) => {
+    [s.p1, s.p2].forEach((p, end) => {
+      const key = keyOf(Math.floor(p.x / cellSize), Math.floor(p.y / cellSize));
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(i * 2 + end);
+      else buckets.set(key, [i * 2 + end]);
+    });
+  });
+
+  const used = new Uint8Array(segments.length);
+
+  // Find an unused segment with an endpoint within tolerance of `p`.
+  // Returns the far end of that segment, which becomes the new chain tip.
+  const takeNeighbor = (p: Point): Point | null => {
+    const gx = Math.floor(p.x / cellSize);
+    const gy = Math.floor(p.y / cellSize);
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const bucket = buckets.get(keyOf(gx + dx, gy + dy));
+        if (!bucket) continue;
+        for (const id of bucket) {
+          const segIdx = id >> 1;
+          if (used[segIdx]) continue;
+          if (distance(p, endpoint(id)) > tolerance) continue;
+          used[segIdx] = 1;
+          return endpoint(id ^ 1);
+        }
+      }
+    }
+    return null;
+  };
+
+  const polylines: Polyline[] = [];
+
+  segments.forEach((s, i) => {
+    if (used[i]) return;
+    used[i] = 1;
+    const line: Polyline = [s.p1, s.p2];
+
+    // Grow forward from the tail
+    let next = takeNeighbor(last(line));
+    while (next) {
+      line.push(next);
+      next = takeNeighbor(next);
+    }
+
+    // Then backward from the head
+    let prev = takeNeighbor(first(line));
+    while (prev) {
+      line.unshift(prev);
+      prev = takeNeighbor(prev);
+    }
+
+    polylines.push(line);
+  });
+
+  return polylines;
+};
+
+// Uniform grid over polyline endpoints so nearest-neighbour lookups don't have to
+// scan every remaining stroke (hatching easily produces tens of thousands).
+const buildEndpointGrid = (lines: Polyline[]) => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  lines.forEach(line => {
+    for (const p of [first(line), last(line)]) {
+      if (p.x < minX) minX = p.x; if (p.x > maxX) maxX = p.x;
+      if (p.y < minY) minY = p.y; if (p.y > maxY) maxY = p.y;
+    }
+  });
+
+  const span = Math.max(maxX - minX, maxY - minY, 1e-6);
+  const cellsPerSide = Math.max(1, Math.ceil(Math.sqrt(lines.length)));
+  const cellSize = span / cellsPerSide;
+  const cols = Math.floor((maxX - minX) / cellSize) + 1;
+  const rows = Math.floor((maxY - minY) / cellSize) + 1;
+
+  const cells: number[][] = Array.from({ length: cols * rows }, () => []);
+  const cellOf = (p: Point) => ({
+    cx: Math.min(cols - 1, Math.max(0, Math.floor((p.x - minX) / cellSize))),
+    cy: Math.min(rows - 1, Math.max(0, Math.floor((p.y - minY) / cellSize)))
+  });
+
+  lines.forEach((line, i) => {
+    const a = cellOf(first(line));
+    const b = cellOf(last(line));
+    cells[a.cy * cols + a.cx].push(i);
+    if (a.cx !== b.cx || a.cy !== b.cy) cells[b.cy * cols + b.cx].push(i);
+  });
+
+  return { cells, cols, rows, cellSize, cellOf };
+};
+
+// Greedy nearest neighbour: from the current pen position, always draw the closest
+// unvisited stroke next, entering it from whichever end is nearer.
+const orderNearestNeighbor = (lines: Polyline[], start: Point): Polyline[] => {
+  const grid = buildEndpointGrid(lines);
+  const visited = new Uint8Array(lines.length);
+  const ordered: Polyline[] = [];
+  let current = start;
+
+  for (let n = 0; n < lines.length; n++) {
+    const { cx, cy } = grid.cellOf(current);
+    let bestIdx = -1;
+    let bestDist = Infinity;
+    let bestFlip = false;
+
+    const maxRing = Math.max(grid.cols, grid.rows);
+    for (let r = 0; r <= maxRing; r++) {
+      // Everything in ring r is at least (r - 1) cells away.
+      if (bestIdx !== -1 && bestDist <= (r - 1) * grid.cellSize) break;
+
+      for (let gy = cy - r; gy <= cy + r; gy++) {
+        if (gy < 0 || gy >= grid.rows) continue;
+        for (let gx = cx - r; gx <= cx + r; gx++) {
+          if (gx < 0 || gx >= grid.cols) continue;
+          // Only the border of the ring; the inside was covered by smaller r.
+          if (r > 0 && gy !== cy - r && gy !== cy + r && gx !== cx - r && gx !== cx + r) continue;
+
+          for (const idx of grid.cells[gy * grid.cols + gx]) {
+            if (visited[idx]) continue;
+            const line = lines[idx];
+            const d1 = distance(current, first(line));
+            const d2 = distance(current, last(line));
+            if (d1 < bestDist) { bestDist = d1; bestIdx = idx; bestFlip = false; }
+            if (d2 < bestDist) { bestDist = d2; bestIdx = idx; bestFlip = true; }
+          }
+        }
+      }
+    }
+
+    if (bestIdx === -1) break;
+    visited[bestIdx] = 1;
+    const next = bestFlip ? reversed(lines[bestIdx]) : lines[bestIdx];
+    ordered.push(next);
+    current = last(next);
+  }
+
+  return ordered;
+};
+
+// 2-opt refinement: reversing a run i..j (and flipping every stroke inside it)
+// only changes the two travel moves at its ends, so each candidate is O(1) to score.
+// The search window keeps a pass linear-ish on large jobs.
+const refineTwoOpt = (ordered: Polyline[], start: Point, window: number, maxPasses: number): Polyline[] => {
+  const route = ordered.slice();
+  const n = route.length;
+
+  for (let pass = 0; pass < maxPasses; pass++) {
+    let improved = false;
+
+    for (let i = 0; i < n - 1; i++) {
+      const prevEnd = i === 0 ? start : last(route[i - 1]);
+      const limit = Math.min(n - 1, i + window);
+
+      for (let j = i + 1; j <= limit; j++) {
+        const nextStart = j === n - 1 ? null : first(route[j + 1]);
+
+        const before = distance(prevEnd, first(route[i])) + (nextStart ? distance(last(route[j]), nextStart) : 0);
+        const after = distance(prevEnd, last(route[j])) + (nextStart ? distance(first(route[i]), nextStart) : 0);
+
+        if (after < before - 1e-9) {
+          const run = route.slice(i, j + 1).reverse().map(reversed);
+          route.splice(i, run.length, ...run);
+          improved = true;
+        }
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  return route;
+};
+
+// Reorders (and reverses where useful) strokes to minimise pen-up travel.
+export const optimizePathOrder = (
+  lines: Polyline[],
+  start: Point,
+  twoOptWindow: number = 50,
+  twoOptPasses: number = 3
+): Polyline[] => {
+  const drawable = lines.filter(line => line.length > 0);
+  if (drawable.length < 2) return drawable;
+  const greedy = orderNearestNeighbor(drawable, start);
+  return refineTwoOpt(greedy, start, twoOptWindow, twoOptPasses);
+};
@@ -0,0 +1,87 @@
+import { ModelSettings, PrinterSettings, Point, PlacementAnchor } from '../types';
+
+export interface SourceBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Where each anchor sits on the bed, as fractions of its width and depth
+const ANCHOR_FACTORS: Record<PlacementAnchor, Point> = {
+  'center': { x: 0.5, y: 0.5 },
+  'front-left': { x: 0, y: 0 },
+  'front-right': { x: 1, y: 0 },
+  'back-left': { x: 0, y: 1 },
+  'back-right': { x: 1, y: 1 },
+};
+
+// The fixed point of the placement: scaling the design moves everything towards or away
+// from it (the bed center for 'center', the anchored corner otherwise), offset included
+export const placementPivot = (modelSettings: ModelSettings, printerSettings: PrinterSettings): Point => {
+  const f = ANCHOR_FACTORS[modelSettings.anchor] || ANCHOR_FACTORS.center;
+  return {
+    x: f.x * printerSettings.bedWidth + (modelSettings.offsetX || 0),
+    y: f.y * printerSettings.bedDepth + (modelSettings.offsetY || 0)
+  };
+};
+
+// Scale/mirror/rotation of a design and where its footprint (the box around the rotated
+// design bounds) lands on the bed
+const placementFrame = (bounds: SourceBounds, modelSettings: ModelSettings, printerSettings: PrinterSettings) => {
+  const { scale } = modelSettings;
+  const angle = (modelSettings.rotation || 0) * Math.PI / 180;
+  const cos = Math.cos(angle), sin = Math.sin(angle);
+
+  // Footprint half-size: the design's bounding box rotated, then boxed again
+  const halfW = (bounds.maxX - bounds.minX) / 2 * scale;
+  const halfH = (bounds.maxY - bounds.minY) / 2 * scale;
+  const footW = Math.abs(halfW * cos) + Math.abs(halfH * sin);
+  const footH = Math.abs(halfW * sin) + Math.abs(halfH * cos);
+
+  // Center of the footprint: the anchor's bed point moved inwards by the footprint
+  const f = ANCHOR_FACTORS[modelSettings.anchor] || ANCHOR_FACTORS.center;
+  const pivot = placementPivot(modelSettings, printerSettings);
+  return {
+    cos, sin, footW, footH,
+    centerX: pivot.x + (1 - 2 * f.x) * footW,
+    centerY: pivot.y + (1 - 2 * f.y) * footH
+  };
+};
+
+// Map design coordinates (SVG / image space, Y down) to bed coordinates (mm, Y up):
+// scale about the design's center, mirror, rotate, then put the footprint against its
+// anchor and apply the offset.
+// Every generator places through this, so G-code, previews and STL line up.
+export const createPlacement = (
+  bounds: SourceBounds,
+  modelSettings: ModelSettings,
+  printerSettings: PrinterSettings
+): ((p: Point) => Point) => {
+  const { scale } = modelSettings;
+  const cx = (bounds.minX + bounds.maxX) / 2;
+  const cy = (bounds.minY + bounds.maxY) / 2;
+  const mx = modelSettings.mirrorX ? -1 : 1;
+  const my = modelSettings.mirrorY ? -1 : 1;
+  const { cos, sin, centerX, centerY } = placementFrame(bounds, modelSettings, printerSettings);
+
+  return (p: Point): Point => {
+    // Flip Y for the printer coordinate system, then mirror
+    const x = (p.x - cx) * scale * mx;
+    const y = -(p.y - cy) * scale * my;
+    return {
+      x: centerX + x * cos - y * sin,
+      y: centerY + x * sin + y * cos
+    };
+  };
+};
+
+// Bed area the placed design's footprint covers
+export const placedFootprint = (
+  bounds: SourceBounds,
+  modelSettings: ModelSettings,
+  printerSettings: PrinterSettings
+): SourceBounds => {
+  const { footW, footH, centerX, centerY } = placementFrame(bounds, modelSettings, printerSettings);
+  return { minX: centerX - footW, minY: centerY - footH, maxX: centerX + footW, maxY: centerY + footH };
+};
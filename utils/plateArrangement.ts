@@ -0,0 +1,98 @@
+import { ArrangeMode, Point } from '../types';
+import { SourceBounds } from './placement';
+
+// Touching at exactly `spacing` counts as clear
+const FIT_EPSILON = 1e-6;
+
+// Footprint of one object to arrange, in mm
+export interface ArrangeItem {
+  width: number;
+  depth: number;
+}
+
+// Centers for each item (same order) laid out on the bed with at least `spacing` mm between
+// neighbours, inside the bed less `margin` on every side, the whole layout centered on the bed.
+// Items that don't fit still get a spot past the margin, so the bed check can report it.
+//  - grid: equal cells (the largest footprint) in rows, front to back
+//  - pack: shelf packing, tallest first: each item goes on the first row with room left,
+//    new rows open behind the last one
+export const arrangeItems = (
+  items: ArrangeItem[],
+  mode: ArrangeMode,
+  spacing: number,
+  bedWidth: number,
+  bedDepth: number,
+  margin: number = 0
+): Point[] => {
+  if (items.length === 0) return [];
+  const gap = Math.max(0, spacing);
+  const usableWidth = bedWidth - 2 * Math.max(0, margin);
+  const centers: Point[] = new Array(items.length);
+  let layoutWidth = 0, layoutDepth = 0;
+
+  if (mode === 'grid') {
+    const cellW = Math.max(...items.map(i => i.width));
+    const cellD = Math.max(...items.map(i => i.depth));
+    const columns = Math.max(1, Math.min(items.length, Math.floor((usableWidth + gap) / (cellW + gap))));
+    const rows = Math.ceil(items.length / columns);
+    items.forEach((_, i) => {
+      const col = i % columns, row = Math.floor(i / columns);
+      centers[i] = { x: col * (cellW + gap) + cellW / 2, y: row * (cellD + gap) + cellD / 2 };
+    });
+    layoutWidth = columns * cellW + (columns - 1) * gap;
+    layoutDepth = rows * cellD + (rows - 1) * gap;
+  } else {
+    const shelves: { y: number; depth: number; used: number }[] = [];
+    const order = items.map((_, i) => i).sort((a, b) => items[b].depth - items[a].depth || items[b].width - items[a].width);
+    for (const i of order) {
+      const { width, depth } = items[i];
+      let shelf = shelves.find(s => s.used + gap + width <= usableWidth && depth <= s.depth);
+      if (!shelf) {
+        const last = shelves[shelves.length - 1];
+        shelf = { y: last ? last.y + last.depth + gap : 0, depth, used: -gap };
+        shelves.push(shelf);
+      }
+      const x = shelf.used + gap;
+      centers[i] = { x: x + width / 2, y: shelf.y + depth / 2 };
+      shelf.used = x + width;
+      layoutWidth = Math.max(layoutWidth, shelf.used);
+    }
+    const last = shelves[shelves.length - 1];
+    layoutDepth = last.y + last.depth;
+  }
+
+  // Center the whole layout on the bed
+  const dx = (bedWidth - layoutWidth) / 2;
+  const dy = (bedDepth - layoutDepth) / 2;
+  return centers.map(c => ({ x: c.x + dx, y: c.y + dy }));
+};
+
+// Center for one more item in the free space around the boxes already on the bed, keeping
+// `spacing` from each of them and inside the bed less `margin`. Tries the bottom-left spots
+// (the margin corner and the right/back edges of the boxes), frontmost then leftmost first.
+// Null when there is no room.
+export const findFreeSpot = (
+  item: ArrangeItem,
+  occupied: SourceBounds[],
+  spacing: number,
+  bedWidth: number,
+  bedDepth: number,
+  margin: number = 0
+): Point | null => {
+  const gap = Math.max(0, spacing);
+  const edge = Math.max(0, margin);
+  const xs = [edge, ...occupied.map(b => b.maxX + gap)];
+  const ys = [edge, ...occupied.map(b => b.maxY + gap)];
+  const spots = ys.flatMap(y => xs.map(x => ({ x, y }))).sort((a, b) => a.y - b.y || a.x - b.x);
+
+  for (const { x, y } of spots) {
+    if (x < edge - FIT_EPSILON || y < edge - FIT_EPSILON) continue;
+    if (x + item.width > bedWidth - edge + FIT_EPSILON || y + item.depth > bedDepth - edge + FIT_EPSILON) continue;
+    const clear = occupied.every(b =>
+      x >= b.maxX + gap - FIT_EPSILON || x + item.width <= b.minX - gap + FIT_EPSILON ||
+      y >= b.maxY + gap - FIT_EPSILON || y + item.depth <= b.minY - gap + FIT_EPSILON
+    );
+    if (clear) return { x: x + item.width / 2, y: y + item.depth / 2 };
+  }
+  return null;
+};
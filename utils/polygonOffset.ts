@@ -0,0 +1,400 @@
+import { Point, Polygon, Region, FillGroup } from '../types';
+
+// Polygon offsetting and winding-rule cleanup.
+//
+// Conventions: a Polygon is a closed ring (last point connects to first) with the filled
+// area on its left, i.e. outer boundaries have positive signed area and holes negative.
+// Every operation that can produce overlaps or self-intersections (offsetting, merging
+// shapes) is finished by `resolvePolygons`, which splits all edges at their crossings
+// and keeps only the pieces that separate filled from empty space under a fill rule.
+
+export type WindingRule = 'nonzero' | 'evenodd' | 'positive';
+
+const EPSILON = 1e-9;
+// Coordinates closer than this (mm) are the same node when stitching edges back into rings
+const SNAP = 1e-6;
+// Max deviation (mm) of the polyline approximating round joins
+const ARC_TOLERANCE = 0.01;
+// Sharper growing corners than this miter ratio get a round join instead
+const MITER_LIMIT = 2;
+
+interface Edge {
+  a: Point;
+  b: Point;
+}
+
+export const polygonArea = (poly: Polygon): number => {
+  let area = 0;
+  for (let i = 0; i < poly.length; i++) {
+    const a = poly[i];
+    const b = poly[(i + 1) % poly.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+};
+
+// Ray-cast even-odd containment test
+export const pointInPolygon = (p: Point, poly: Polygon): boolean => {
+  let inside = false;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const a = poly[i], b = poly[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Reverse a ring if needed so its signed area has the requested sign
+export const orientPolygon = (poly: Polygon, positive: boolean): Polygon =>
+  (polygonArea(poly) > 0) === positive ? poly : poly.slice().reverse();
+
+const isInside = (winding: number, rule: WindingRule): boolean => {
+  if (rule === 'evenodd') return (winding & 1) === 1;
+  if (rule === 'positive') return winding > 0;
+  return winding !== 0;
+};
+
+// Edges bucketed into horizontal bands so winding queries only look at edges their ray can hit
+const buildBandIndex = (edges: Edge[]) => {
+  let minY = Infinity, maxY = -Infinity;
+  edges.forEach(e => {
+    minY = Math.min(minY, e.a.y, e.b.y);
+    maxY = Math.max(maxY, e.a.y, e.b.y);
+  });
+  const bandCount = Math.max(1, Math.min(8192, Math.ceil(edges.length / 8)));
+  const bandHeight = Math.max((maxY - minY) / bandCount, EPSILON);
+  const bands: Edge[][] = Array.from({ length: bandCount }, () => []);
+  const bandOf = (y: number) => Math.min(bandCount - 1, Math.max(0, Math.floor((y - minY) / bandHeight)));
+
+  edges.forEach(e => {
+    const b0 = bandOf(Math.min(e.a.y, e.b.y));
+    const b1 = bandOf(Math.max(e.a.y, e.b.y));
+    for (let b = b0; b <= b1; b++) bands[b].push(e);
+  });
+
+  // Winding number of `p` (Sunday's crossing rule: upward edges with p on their left count +1,
+  // downward edges with p on their right count -1)
+  const windingAt = (p: Point): number => {
+    if (p.y < minY || p.y > maxY) return 0;
+    let winding = 0;
+    for (const e of bands[bandOf(p.y)]) {
+      const side = (e.b.x - e.a.x) * (p.y - e.a.y) - (p.x - e.a.x) * (e.b.y - e.a.y);
+      if (e.a.y <= p.y) {
+        if (e.b.y > p.y && side > 0) winding++;
+      } else if (e.b.y <= p.y && side < 0) {
+        winding--;
+      }
+    }
+    return winding;
+  };
+
+  return { windingAt };
+};
+
+// Split every edge at every point where another edge touches or crosses it
+const splitAtIntersections = (edges: Edge[]): Edge[] => {
+  const splits: { t: number; p: Point }[][] = edges.map(() => []);
+  const order = edges
+    .map((e, i) => ({ i, minX: Math.min(e.a.x, e.b.x), maxX: Math.max(e.a.x, e.b.x) }))
+    .sort((l, r) => l.minX - r.minX);
+
+  // Parameter of `p` along edge e, if p lies on it (strictly inside)
+  const paramOn = (e: Edge, p: Point): number | null => {
+    const dx = e.b.x - e.a.x, dy = e.b.y - e.a.y;
+    const len2 = dx * dx + dy * dy;
+    if (len2 < EPSILON) return null;
+    const t = ((p.x - e.a.x) * dx + (p.y - e.a.y) * dy) / len2;
+    if (t <= EPSILON || t >= 1 - EPSILON) return null;
+    const ox = e.a.x + dx * t - p.x, oy = e.a.y + dy * t - p.y;
+    return ox * ox + oy * oy < SNAP * SNAP ? t : null;
+  };
+
+  for (let m = 0; m < order.length; m++) {
+    const i = order[m].i;
+    const e1 = edges[i];
+    const e1MinY = Math.min(e1.a.y, e1.b.y), e1MaxY = Math.max(e1.a.y, e1.b.y);
+
+    for (let n = m + 1; n < order.length && order[n].minX <= order[m].maxX + SNAP; n++) {
+      const j = order[n].i;
+      const e2 = edges[j];
+      if (Math.max(e2.a.y, e2.b.y) < e1MinY - SNAP || Math.min(e2.a.y, e2.b.y) > e1MaxY + SNAP) continue;
+
+      const d1x = e1.b.x - e1.a.x, d1y = e1.b.y - e1.a.y;
+      const d2x = e2.b.x - e2.a.x, d2y = e2.b.y - e2.a.y;
+      const denom = d1x * d2y - d1y * d2x;
+
+      if (Math.abs(denom) > EPSILON) {
+        const t = ((e2.a.x - e1.a.x) * d2y - (e2.a.y - e1.a.y) * d2x) / denom;
+        const u = ((e2.a.x - e1.a.x) * d1y - (e2.a.y - e1.a.y) * d1x) / denom;
+        if (t < -EPSILON || t > 1 + EPSILON || u < -EPSILON || u > 1 + EPSILON) continue;
+        const p = { x: e1.a.x + d1x * t, y: e1.a.y + d1y * t };
+        if (t > EPSILON && t < 1 - EPSILON) splits[i].push({ t, p });
+        if (u > EPSILON && u < 1 - EPSILON) splits[j].push({ t: u, p });
+      } else {
+        // Parallel: only collinear overlaps matter, split each at the other's endpoints
+        for (const p of [e2.a, e2.b]) {
+          const t = paramOn(e1, p);
+          if (t !== null) splits[i].push({ t, p });
+        }
+        for (const p of [e1.a, e1.b]) {
+          const t = paramOn(e2, p);
+          if (t !== null) splits[j].push({ t, p });
+        }
+      }
+    }
+  }
+
+  const result: Edge[] = [];
+  edges.forEach((e, i) => {
+    const pts = [e.a, ...splits[i].sort((l, r) => l.t - r.t).map(s => s.p), e.b];
+    for (let k = 0; k < pts.length - 1; k++) {
+      const a = pts[k], b = pts[k + 1];
+      if (Math.abs(a.x - b.x) < SNAP && Math.abs(a.y - b.y) < SNAP) continue;
+      result.push({ a, b });
+    }
+  });
+  return result;
+};
+
+const nodeKey = (p: Point) => `${Math.round(p.x / SNAP)},${Math.round(p.y / SNAP)}`;
+
+// Stitch directed edges into closed rings. At nodes where several rings touch we take the
+// sharpest left turn, which keeps touching regions as separate rings.
+const stitchRings = (edges: Edge[]): Polygon[] => {
+  const outgoing = new Map<string, number[]>();
+  edges.forEach((e, i) => {
+    const key = nodeKey(e.a);
+    const list = outgoing.get(key);
+    if (list) list.push(i);
+    else outgoing.set(key, [i]);
+  });
+
+  const used = new Uint8Array(edges.length);
+  const rings: Polygon[] = [];
+
+  for (let startIdx = 0; startIdx < edges.length; startIdx++) {
+    if (used[startIdx]) continue;
+    const ring: Point[] = [];
+    let idx = startIdx;
+    const startKey = nodeKey(edges[startIdx].a);
+
+    while (true) {
+      used[idx] = 1;
+      const e = edges[idx];
+      ring.push(e.a);
+      const endKey = nodeKey(e.b);
+      if (endKey === startKey) break;
+
+      const candidates = (outgoing.get(endKey) || []).filter(c => !used[c]);
+      if (candidates.length === 0) break; // Open chain; shouldn't happen with consistent input
+
+      const inX = e.b.x - e.a.x, inY = e.b.y - e.a.y;
+      let best = candidates[0];
+      let bestTurn = -Infinity;
+      for (const c of candidates) {
+        const outX = edges[c].b.x - edges[c].a.x, outY = edges[c].b.y - edges[c].a.y;
+        const turn = Math.atan2(inX * outY - inY * outX, inX * outX + inY * outY);
+        if (turn > bestTurn) { bestTurn = turn; best = c; }
+      }
+      idx = best;
+    }
+
+    const cleaned = removeCollinear(ring);
+    if (cleaned.length >= 3 && Math.abs(polygonArea(cleaned)) > SNAP) rings.push(cleaned);
+  }
+
+  return rings;
+};
+
+const removeCollinear = (ring: Point[]): Point[] => {
+  const out: Point[] = [];
+  for (let i = 0; i < ring.length; i++) {
+    const prev = out.length > 0 ? out[out.length - 1] : ring[ring.length - 1];
+    const p = ring[i];
+    const next = ring[(i + 1) % ring.length];
+    const cross = (p.x - prev.x) * (next.y - p.y) - (p.y - prev.y) * (next.x - p.x);
+    const dot = (p.x - prev.x) * (next.x - p.x) + (p.y - prev.y) * (next.y - p.y);
+    if (Math.abs(cross) > EPSILON || dot < 0) out.push(p);
+  }
+  return out;
+};
+
+// Clean up an arbitrary set of rings (self-intersecting, overlapping, any orientation)
+// into non-overlapping rings under the given fill rule: outer boundaries come out with
+// positive area, holes negative.
+export const resolvePolygons = (rings: Polygon[], rule: WindingRule): Polygon[] => {
+  const edges: Edge[] = [];
+  rings.forEach(ring => {
+    for (let i = 0; i < ring.length; i++) {
+      const a = ring[i], b = ring[(i + 1) % ring.length];
+      if (Math.abs(a.x - b.x) < SNAP && Math.abs(a.y - b.y) < SNAP) continue;
+      edges.push({ a, b });
+    }
+  });
+  if (edges.length < 3) return [];
+
+  const pieces = splitAtIntersections(edges);
+  const index = buildBandIndex(pieces);
+
+  // Keep pieces with filled space on exactly one side, oriented so it's on the left
+  const kept: Edge[] = [];
+  const seen = new Set<string>();
+  const probe = SNAP * 10;
+  for (const e of pieces) {
+    const dx = e.b.x - e.a.x, dy = e.b.y - e.a.y;
+    const len = Math.sqrt(dx * dx + dy * dy);
+    const mx = (e.a.x + e.b.x) / 2, my = (e.a.y + e.b.y) / 2;
+    const nx = -dy / len * probe, ny = dx / len * probe;
+    const leftInside = isInside(index.windingAt({ x: mx + nx, y: my + ny }), rule);
+    const rightInside = isInside(index.windingAt({ x: mx - nx, y: my - ny }), rule);
+    if (leftInside === rightInside) continue;
+
+    const directed = leftInside ? e : { a: e.b, b: e.a };
+    // Coincident duplicates (shared edges of overlapping input) collapse to one
+    const key = `${nodeKey(directed.a)}>${nodeKey(directed.b)}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    kept.push(directed);
+  }
+
+  return stitchRings(kept);
+};
+
+// Parts of `rings` outside `cut`. Both must be resolved rings (filled side on the left), so
+// the reversed cut rings take exactly their area away.
+export const subtractPolygons = (rings: Polygon[], cut: Polygon[]): Polygon[] =>
+  resolvePolygons([...rings, ...cut.map(r => [...r].reverse())], 'positive');
+
+// Group resolved rings into regions: each hole belongs to the smallest outer ring around it
+export const buildRegions = (rings: Polygon[]): Region[] => {
+  const outers = rings
+    .filter(r => polygonArea(r) > 0)
+    .map(r => ({ region: { outer: r, holes: [] as Polygon[] }, area: polygonArea(r) }))
+    .sort((a, b) => a.area - b.area);
+
+  rings.filter(r => polygonArea(r) < 0).forEach(hole => {
+    // A point just on the filled side of the hole's first edge lies inside its owner
+    const a = hole[0], b = hole[1];
+    const len = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    const probe = {
+      x: (a.x + b.x) / 2 - (b.y - a.y) / len * SNAP * 10,
+      y: (a.y + b.y) / 2 + (b.x - a.x) / len * SNAP * 10
+    };
+    const owner = outers.find(o => pointInPolygon(probe, o.region.outer));
+    if (owner) owner.region.holes.push(hole);
+  });
+
+  return outers.map(o => o.region);
+};
+
+// Winding of a path as a whole: the direction of its largest ring
+const groupWinding = (rings: Polygon[]): number => {
+  let largest = 0;
+  rings.forEach(r => {
+    const area = polygonArea(r);
+    if (Math.abs(area) > Math.abs(largest)) largest = area;
+  });
+  return Math.sign(largest);
+};
+
+// Resolve each group (one SVG path) under its own fill rule, then union the results into one
+// set of non-overlapping regions, so overlapping paths are filled once. A path that sits
+// inside another one and winds the other way is a counter drawn as its own path: it is cut
+// out of the paths around it instead of being filled. Other paths don't affect each other.
+export const resolveFillRegions = (groups: FillGroup[]): Region[] => {
+  const resolved = groups.map(g => {
+    const rings = resolvePolygons(g.rings, g.fillRule);
+    const all = rings.flat();
+    return {
+      rings,
+      winding: groupWinding(g.rings),
+      minX: Math.min(...all.map(p => p.x)), maxX: Math.max(...all.map(p => p.x)),
+      minY: Math.min(...all.map(p => p.y)), maxY: Math.max(...all.map(p => p.y))
+    };
+  });
+  type Resolved = typeof resolved[number];
+  const nestedIn = (inner: Resolved, outer: Resolved): boolean => {
+    if (inner.minX < outer.minX || inner.maxX > outer.maxX || inner.minY < outer.minY || inner.maxY > outer.maxY) return false;
+    const outers = outer.rings.filter(r => polygonArea(r) > 0);
+    return inner.rings.every(ring => ring.every(p => outers.some(o => pointInPolygon(p, o))));
+  };
+  const isCounter = resolved.map((g, i) => g.rings.length > 0 && g.winding !== 0 && resolved.some((o, j) =>
+    j !== i && o.winding === -g.winding && nestedIn(g, o)
+  ));
+
+  const filled = resolved.flatMap((g, i) => {
+    if (isCounter[i]) return [];
+    const counters = resolved.filter((c, j) => isCounter[j] && c.winding === -g.winding && nestedIn(c, g));
+    return counters.length === 0 ? g.rings : subtractPolygons(g.rings, counters.flatMap(c => c.rings));
+  });
+  return buildRegions(resolvePolygons(filled, 'nonzero'));
+};
+
+export const regionsToPolygons = (regions: Region[]): Polygon[] =>
+  regions.flatMap(r => [r.outer, ...r.holes]);
+
+// Move every edge of every ring outward by `delta` (negative delta insets), joining
+// growing corners with a miter or arc. Shrinking corners are joined through the original
+// vertex; the resulting inverted loops are dropped by the 'positive' winding pass.
+export const offsetPolygons = (rings: Polygon[], delta: number): Polygon[] => {
+  if (Math.abs(delta) < EPSILON) return resolvePolygons(rings, 'positive');
+
+  const raw: Polygon[] = [];
+  const arcStep = 2 * Math.acos(Math.max(-1, 1 - ARC_TOLERANCE / Math.abs(delta)));
+
+  rings.forEach(ring => {
+    const pts = removeCollinear(ring);
+    const n = pts.length;
+    if (n < 3) return;
+
+    // Outward (right-hand) unit normal of edge i -> i+1
+    const normals = pts.map((p, i) => {
+      const q = pts[(i + 1) % n];
+      const len = Math.hypot(q.x - p.x, q.y - p.y) || 1;
+      return { x: (q.y - p.y) / len, y: -(q.x - p.x) / len };
+    });
+
+    const out: Point[] = [];
+    for (let i = 0; i < n; i++) {
+      const p = pts[i];
+      const n1 = normals[(i - 1 + n) % n];
+      const n2 = normals[i];
+      const a = { x: p.x + n1.x * delta, y: p.y + n1.y * delta };
+      const b = { x: p.x + n2.x * delta, y: p.y + n2.y * delta };
+
+      // cross of edge directions equals cross of their normals
+      const cross = n1.x * n2.y - n1.y * n2.x;
+      const dot = n1.x * n2.x + n1.y * n2.y;
+
+      if (Math.abs(cross) < EPSILON && dot > 0) {
+        out.push(a);
+      } else if (cross * delta < 0 && dot > -1 + EPSILON) {
+        // Shrinking corner
+        out.push(a, p, b);
+      } else {
+        // Growing corner (or a 180° spike)
+        const miterRatio = Math.sqrt(2 / Math.max(1 + dot, EPSILON));
+        if (miterRatio <= MITER_LIMIT) {
+          const k = delta / (1 + dot);
+          out.push({ x: p.x + (n1.x + n2.x) * k, y: p.y + (n1.y + n2.y) * k });
+        } else {
+          const start = Math.atan2(n1.y, n1.x);
+          let sweep = Math.atan2(cross, dot);
+          if (Math.abs(cross) < EPSILON) sweep = delta > 0 ? Math.PI : -Math.PI;
+          const steps = Math.max(1, Math.ceil(Math.abs(sweep) / arcStep));
+          for (let s = 0; s <= steps; s++) {
+            const ang = start + sweep * (s / steps);
+            out.push({ x: p.x + Math.cos(ang) * delta, y: p.y + Math.sin(ang) * delta });
+          }
+        }
+      }
+    }
+    raw.push(out);
+  });
+
+  return resolvePolygons(raw, 'positive');
+};
+
+export const offsetRegions = (regions: Region[], delta: number): Region[] =>
+  buildRegions(offsetPolygons(regionsToPolygons(regions), delta));
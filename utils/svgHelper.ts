@@ -0,0 +1,197 @@
+import * as THREE from 'three';
+import { SVGLoader } from 'three/examples/jsm/loaders/SVGLoader';
+import { FillGroup, FillRule, Polygon, Region, Segment, PenGroup, SVGPlotMode, ModelSettings } from '../types';
+import { flattenPath } from './geometryHelper';
+
+// The fields of an SVGLoader path (and its parsed style) read here
+interface SVGPathStyle {
+  fill?: string;
+  stroke?: string;
+  fillRule?: string;
+}
+
+interface SVGPathData {
+  subPaths: THREE.Path[];
+  userData?: { style?: SVGPathStyle };
+}
+
+const isPainted = (paint: string | undefined): boolean =>
+  !!paint && paint !== 'none' && paint !== 'transparent';
+
+// Curve tolerance in SVG units: the setting is in mm on the bed, and one SVG unit is `scale` mm
+export const svgCurveTolerance = (modelSettings: ModelSettings): number =>
+  modelSettings.curveTolerance / (modelSettings.scale > 0.0001 ? modelSettings.scale : 1);
+
+// Parse an SVG into fill groups (one per filled path, under its own fill-rule) of flattened
+// subpath rings, plus the bounds of all geometry in SVG units. Stroke-only paths (fill="none")
+// are no solid and are left out. Curves are flattened to `tolerance` (SVG units).
+export const loadSVGFillGroups = (content: string, tolerance: number = 0) => {
+  const loader = new SVGLoader();
+  const svgData = loader.parse(content);
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  const groups: FillGroup[] = [];
+
+  svgData.paths.forEach((path: SVGPathData) => {
+    const style: SVGPathStyle = path.userData?.style || {};
+    if (!isPainted(style.fill)) return;
+    const fillRule: FillRule = style.fillRule === 'evenodd' ? 'evenodd' : 'nonzero';
+    const rings: Polygon[] = [];
+    path.subPaths.forEach((subPath: THREE.Path) => {
+      const ring = flattenPath(subPath, tolerance).map(p => ({ x: p.x, y: p.y }));
+      if (ring.length < 3) return;
+      ring.forEach(p => {
+        if (p.x < minX) minX = p.x; if (p.x > maxX) maxX = p.x;
+        if (p.y < minY) minY = p.y; if (p.y > maxY) maxY = p.y;
+      });
+      rings.push(ring);
+    });
+    if (rings.length > 0) groups.push({ rings, fillRule });
+  });
+
+  if (groups.length === 0 || minX === Infinity) {
+    throw new Error("No filled paths found in SVG. 3D prints need shapes with a fill; outlines only (fill=\"none\") have no area.");
+  }
+
+  return { groups, minX, minY, maxX, maxY };
+};
+
+export const regionsToShapes = (regions: Region[]): THREE.Shape[] =>
+  regions.map(region => {
+    const shape = new THREE.Shape(region.outer.map(p => new THREE.Vector2(p.x, p.y)));
+    region.holes.forEach(h => shape.holes.push(new THREE.Path(h.map(p => new THREE.Vector2(p.x, p.y)))));
+    return shape;
+  });
+
+// Paints setStyle() understands: hex, rgb()/hsl() and color names. Anything else it only
+// warns about and leaves the color white.
+const isColorPaint = (paint: string): boolean =>
+  /^\s*(#|rgba?\(|hsla?\()/i.test(paint) || paint.trim().toLowerCase() in THREE.Color.NAMES;
+
+// First stop color of each gradient in the SVG, by id (following href to a gradient that
+// holds the stops). SVGLoader has no color for url(#...) paints; this is the nearest one.
+const gradientColors = (content: string): Map<string, string> => {
+  const doc = new DOMParser().parseFromString(content, 'image/svg+xml');
+  const stops = new Map<string, string>();
+  const links = new Map<string, string>();
+  ['linearGradient', 'radialGradient'].forEach(tag => {
+    Array.from(doc.getElementsByTagName(tag)).forEach(gradient => {
+      const id = gradient.getAttribute('id');
+      if (!id) return;
+      const stop = gradient.getElementsByTagName('stop')[0];
+      const styled = stop?.getAttribute('style')?.match(/stop-color\s*:\s*([^;]+)/);
+      const color = styled ? styled[1].trim() : stop?.getAttribute('stop-color');
+      if (color) stops.set(id, color);
+      const href = gradient.getAttribute('href') || gradient.getAttribute('xlink:href');
+      if (href?.startsWith('#')) links.set(id, href.slice(1));
+    });
+  });
+  links.forEach((target, id) => {
+    if (!stops.has(id) && stops.has(target)) stops.set(id, stops.get(target)!);
+  });
+  return stops;
+};
+
+// A fill/stroke paint as #rrggbb. Gradients (url(#...)) have no single color and take their
+// first stop's; patterns and anything else without a usable color draw in black.
+const paintColor = (paint: string, gradients: Map<string, string>): string => {
+  const url = paint.trim().match(/^url\(\s*['"]?#([^'")\s]+)/);
+  const color = url ? gradients.get(url[1]) : paint;
+  if (color && isColorPaint(color)) return '#' + new THREE.Color().setStyle(color).getHexString();
+  return '#000000';
+};
+
+// Segments along each subpath in SVG units, for machines that trace lines rather than fill
+// areas, grouped by pen color in document order, plus the bounds of everything kept.
+// `mode` picks what to draw from each path's fill/stroke attributes: stroked subpaths are
+// followed as drawn (open ones stay open), filled ones as the closed outline of the fill.
+// A subpath that is both stroked and filled is drawn once.
+// With `withFills`, every filled path's rings are also returned with its fill color, in paint
+// order (for hatching), and count towards the bounds. Curves are flattened to `tolerance` (SVG units).
+export const loadSVGOutlines = (content: string, mode: SVGPlotMode = 'both', withFills: boolean = false, tolerance: number = 0) => {
+  const loader = new SVGLoader();
+  const svgData = loader.parse(content);
+  const wantStrokes = mode !== 'fills';
+  const wantFills = mode !== 'strokes';
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  const byColor = new Map<string, Segment[]>();
+  const fills: { color: string; fillGroup: FillGroup }[] = [];
+  const gradients = gradientColors(content);
+
+  const addPolyline = (pts: THREE.Vector2[], close: boolean, segments: Segment[]) => {
+    if (close && pts.length > 2 && !pts[0].equals(pts[pts.length - 1])) pts = [...pts, pts[0]];
+    for (let i = 0; i < pts.length; i++) {
+      const p = pts[i];
+      if (p.x < minX) minX = p.x; if (p.x > maxX) maxX = p.x;
+      if (p.y < minY) minY = p.y; if (p.y > maxY) maxY = p.y;
+      if (i > 0) segments.push({ p1: { x: pts[i - 1].x, y: pts[i - 1].y }, p2: { x: p.x, y: p.y } });
+    }
+  };
+
+  svgData.paths.forEach((path: SVGPathData) => {
+    const style: SVGPathStyle = path.userData?.style || {};
+
+    if (withFills && isPainted(style.fill)) {
+      const rings: Polygon[] = [];
+      path.subPaths.forEach((subPath: THREE.Path) => {
+        const ring = flattenPath(subPath, tolerance).map(p => ({ x: p.x, y: p.y }));
+        if (ring.length < 3) return;
+        ring.forEach(p => {
+          if (p.x < minX) minX = p.x; if (p.x > maxX) maxX = p.x;
+          if (p.y < minY) minY = p.y; if (p.y > maxY) maxY = p.y;
+        });
+        rings.push(ring);
+      });
+      if (rings.length > 0) {
+        fills.push({ color: paintColor(style.fill, gradients), fillGroup: { rings, fillRule: style.fillRule === 'evenodd' ? 'evenodd' : 'nonzero' } });
+      }
+    }
+
+    const stroked = wantStrokes && isPainted(style.stroke);
+    const filled = wantFills && isPainted(style.fill);
+    if (!stroked && !filled) return;
+
+    // Pen follows the stroke color when the stroke is what's being drawn
+    const color = paintColor(stroked ? style.stroke : style.fill, gradients);
+    const segments = byColor.get(color) || [];
+    byColor.set(color, segments);
+
+    path.subPaths.forEach((subPath: THREE.Path) => {
+      // flattenPath() already repeats the first point for subpaths closed with Z (autoClose)
+      const pts = flattenPath(subPath, tolerance);
+      // A fill needs an area; bare lines only show up when stroked
+      if (!stroked && pts.length < 3) return;
+      addPolyline(pts, filled, segments);
+    });
+  });
+
+  const groups: PenGroup[] = Array.from(byColor, ([color, segments]) => ({ color, segments }))
+    .filter(g => g.segments.length > 0);
+
+  if ((groups.length === 0 && fills.length === 0) || minX === Infinity) {
+    throw new Error("No paths found in SVG. Ensure it is a valid SVG with path elements.");
+  }
+
+  return { groups, fills, minX, minY, maxX, maxY };
+};
+
+// Pen colors used by an SVG (outlines first, then hatch-only fill colors), in document order
+export const listSVGColors = (content: string, mode: SVGPlotMode = 'both', withFills: boolean = false): string[] => {
+  const { groups, fills } = loadSVGOutlines(content, mode, withFills);
+  const colors = groups.map(g => g.color);
+  fills.forEach(f => { if (!colors.includes(f.color)) colors.push(f.color); });
+  return colors;
+};
+
+// Colors sorted by the user's pen order; colors missing from it keep their relative order at the end
+export const sortByPenOrder = <T>(items: T[], colorOf: (item: T) => string, penOrder: string[]): T[] => {
+  const rank = (item: T) => {
+    const idx = penOrder.indexOf(colorOf(item));
+    return idx === -1 ? penOrder.length : idx;
+  };
+  return items
+    .map((item, i) => ({ item, i }))
+    .sort((a, b) => rank(a.item) - rank(b.item) || a.i - b.i)
+    .map(({ item }) => item);
+};